@@ -4,8 +4,7 @@ import dotenv from "dotenv";
 dotenv.config();
 
 // Import D2 diagram plugin
-import d2 from 'vitepress-plugin-d2';
-import { Layout, Theme, FileType } from 'vitepress-plugin-d2/dist/config';
+import d2, { d2VitePlugin, Layout, Theme, FileType } from 'vitepress-plugin-d2';
 
 // https://vitepress.dev/reference/site-config
 export default defineConfig({
@@ -57,4 +56,7 @@ export default defineConfig({
       });
     },
   },
+  vite: {
+    plugins: [d2VitePlugin()],
+  },
 })
@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+
+// 静态资源在站点输出目录中的子目录
+export const ASSET_DIRECTORY = "assets/d2";
+
+// 已注册的静态资源，键为输出文件名（相对于站点根目录），值为缓存目录中的图表文件路径
+const registeredAssets = new Map<string, string>();
+
+// 已计算的资源文件名，键为图表文件路径（图表文件写入后内容不再改变）
+const assetFileNames = new Map<string, string>();
+
+// 站点的 base 路径，由 Vite 插件在配置解析完成后设置
+let assetBase: string | null = null;
+
+/**
+ * 设置站点的 base 路径，同时表示静态资源输出已由 Vite 插件启用
+ * @param base 站点 base 路径，例如 "/docs/"
+ */
+export function setAssetBase(base: string) {
+  assetBase = base.endsWith("/") ? base : `${base}/`;
+}
+
+/**
+ * 检查静态资源输出是否可用（需要注册 Vite 插件）
+ * @returns 如果可用则返回 true
+ */
+export function isAssetOutputAvailable(): boolean {
+  return assetBase != null;
+}
+
+/**
+ * 将图表文件注册为静态资源，并返回其访问 URL
+ * 文件名包含图表内容的哈希值，因此可被浏览器长期缓存并在页面间共享。
+ * @param imageFilePath 图表文件路径
+ * @returns 包含站点 base 路径的资源 URL
+ */
+export function getAssetUrl(imageFilePath: string): string {
+  let fileName = assetFileNames.get(imageFilePath);
+  if (!fileName) {
+    const contentHash = createHash("sha256").update(readFileSync(imageFilePath)).digest("hex").slice(0, 8);
+    fileName = `${ASSET_DIRECTORY}/d2-diagram.${contentHash}${path.extname(imageFilePath)}`;
+    assetFileNames.set(imageFilePath, fileName);
+  }
+
+  registeredAssets.set(fileName, imageFilePath);
+  return `${assetBase ?? "/"}${fileName}`;
+}
+
+/**
+ * 根据资源文件名查找图表文件路径
+ * @param fileName 资源文件名（相对于站点根目录）
+ * @returns 图表文件路径，未注册时返回 undefined
+ */
+export function findAssetFile(fileName: string): string | undefined {
+  return registeredAssets.get(fileName);
+}
+
+/**
+ * 获取所有已注册的静态资源
+ * @returns 资源文件名和图表文件路径
+ */
+export function getRegisteredAssets(): [string, string][] {
+  return [...registeredAssets];
+}
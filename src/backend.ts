@@ -0,0 +1,261 @@
+import { spawn, spawnSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import { Backend, Config, FileType } from "./config.js";
+import { D2Executable, getD2Version } from "./d2-binary.js";
+import { findBoards, removeCommentsFromD2 } from "./d2-helper.js";
+import { wasmBackend } from "./wasm-backend.js";
+
+/**
+ * 一次图表渲染任务
+ */
+export interface RenderJob {
+  /** 传递给 d2 的代码，已包含 prelude 和 vars.d2-config */
+  input: string;
+  /** d2 命令行参数（不含输入和输出路径） */
+  args: string[];
+  /** 输出文件类型 */
+  fileType: FileType;
+  /** 输出文件的绝对路径 */
+  outputFilePath: string;
+  /** 图表导入的文件、prelude 文件及其导入的文件（绝对路径） */
+  imports: string[];
+  /** 运行 d2 的方式，cwd 为解析导入路径的基准目录 */
+  executable: D2Executable;
+  /** 配置对象 */
+  config: Config;
+}
+
+/**
+ * 渲染任务的结果
+ */
+export interface RenderJobResult {
+  /** 退出码，0 表示成功 */
+  status: number | null;
+  /** 错误输出 */
+  stderr: string;
+}
+
+/**
+ * 一次渲染中生成的一个图板
+ */
+export interface BoardOutput {
+  /** 图板路径，例如 "layers.prod"，空字符串表示根图板 */
+  target: string;
+  /** 图板输出文件的绝对路径 */
+  outputFilePath: string;
+}
+
+/**
+ * 渲染后端，将 D2 代码渲染为输出文件
+ * 所有后端使用相同的缓存键和输出文件，因此生成的图表可以互换。
+ */
+export interface D2Backend {
+  /**
+   * 获取 d2 版本，计入缓存键并记录在缓存清单中
+   * @param config 配置对象
+   * @returns d2 版本字符串，例如 "v0.6.8"；不可用时返回 null
+   */
+  getVersion(config: Config): string | null;
+
+  /**
+   * 检查后端是否已准备好，未准备好时不能同步获取版本
+   * @param config 配置对象
+   * @returns 如果已准备好则返回 true
+   */
+  isReady(config: Config): boolean;
+
+  /**
+   * 准备后端，例如加载 WASM 模块
+   * @param config 配置对象
+   */
+  prepare(config: Config): Promise<void>;
+
+  /**
+   * 同步渲染图表，不支持同步渲染的后端没有此方法
+   * @param job 渲染任务
+   * @returns 退出码和错误输出
+   */
+  renderSync?(job: RenderJob): RenderJobResult;
+
+  /**
+   * 异步渲染图表
+   * @param job 渲染任务
+   * @returns 退出码和错误输出
+   */
+  render(job: RenderJob): Promise<RenderJobResult>;
+
+  /**
+   * 同步地编译一次图表并渲染其中的多个图板，不支持的后端没有此方法
+   * 未生成输出文件的图板由调用方单独渲染。
+   * @param job 渲染任务，不指定图板
+   * @param boards 需要的图板及其输出文件
+   * @returns 退出码和错误输出
+   */
+  renderBoardsSync?(job: RenderJob, boards: BoardOutput[]): RenderJobResult;
+
+  /**
+   * 异步地编译一次图表并渲染其中的多个图板，不支持的后端没有此方法
+   * 未生成输出文件的图板由调用方单独渲染。
+   * @param job 渲染任务，不指定图板
+   * @param boards 需要的图板及其输出文件
+   * @returns 退出码和错误输出
+   */
+  renderBoards?(job: RenderJob, boards: BoardOutput[]): Promise<RenderJobResult>;
+}
+
+/**
+ * 运行 d2 可执行文件的后端，D2 代码通过标准输入传递
+ */
+export const cliBackend: D2Backend = {
+  getVersion: (config) => getD2Version(config),
+
+  isReady: () => true,
+
+  prepare: async () => {},
+
+  renderSync(job) {
+    const { executable } = job;
+    const command = spawnSync(executable.command, ["-", job.outputFilePath, ...job.args], {
+      input: job.input,
+      encoding: "utf-8",
+      stdio: "pipe",
+      env: executable.env,
+      cwd: executable.cwd,
+    });
+
+    // console.debug("D2 Command:", executable.command, ["-", job.outputFilePath, ...job.args].join(" "));
+
+    return { status: command.status, stderr: command.stderr };
+  },
+
+  render(job) {
+    return spawnAsync(job.executable, ["-", job.outputFilePath, ...job.args], job.input);
+  },
+
+  renderBoardsSync(job, boards) {
+    try {
+      const result = cliBackend.renderSync!(job);
+      if (result.status === 0) {
+        collectBoardOutputs(job, boards);
+      }
+      return result;
+    } finally {
+      fs.rmSync(getBoardDirectory(job.outputFilePath), { recursive: true, force: true });
+    }
+  },
+
+  async renderBoards(job, boards) {
+    try {
+      const result = await cliBackend.render(job);
+      if (result.status === 0) {
+        collectBoardOutputs(job, boards);
+      }
+      return result;
+    } finally {
+      await fs.promises.rm(getBoardDirectory(job.outputFilePath), { recursive: true, force: true });
+    }
+  },
+};
+
+/**
+ * 获取 d2 渲染多图板图表时的输出目录：输出文件路径去掉扩展名
+ * @param outputFilePath 传递给 d2 的输出文件路径
+ * @returns 输出目录
+ */
+function getBoardDirectory(outputFilePath: string): string {
+  const ext = path.extname(outputFilePath);
+  return outputFilePath.slice(0, outputFilePath.length - ext.length);
+}
+
+/**
+ * 获取 d2 渲染多图板图表时某个图板的输出文件路径
+ * 有子图板的图板输出到以其名称命名的目录中的 index 文件，子图板输出到该目录中；
+ * 图板同时有多种子图板（layers、scenarios、steps）时，每种子图板再放在以类型命名的子目录中。
+ * @param outputFilePath 传递给 d2 的输出文件路径
+ * @param target 图板路径，空字符串表示根图板
+ * @param boardTargets 图表中所有图板的路径
+ * @returns 图板的输出文件路径，图板不在 boardTargets 中时返回 null
+ */
+function getBoardFilePath(outputFilePath: string, target: string, boardTargets: string[]): string | null {
+  const ext = path.extname(outputFilePath);
+  const join = (filePath: string, name: string) => path.join(getBoardDirectory(filePath), name) + ext;
+
+  // 每个图板的父图板、子图板类型和名称，父图板为路径是其前缀的最长图板
+  const parents = new Map<string, { parent: string; kind: string; name: string }>();
+  for (const board of boardTargets) {
+    for (const parent of ["", ...boardTargets]) {
+      const prefix = parent ? `${parent}.` : "";
+      const match = board.startsWith(prefix) ? board.slice(prefix.length).match(/^(layers|scenarios|steps)\.(.+)$/) : null;
+      if (match && board !== parent && parent.length >= (parents.get(board)?.parent.length ?? -1)) {
+        parents.set(board, { parent, kind: match[1], name: match[2].replace(/^(["'])(.*)\1$/, "$2") });
+      }
+    }
+  }
+  const childKinds = (board: string) => new Set([...parents.values()].filter((info) => info.parent === board).map((info) => info.kind));
+
+  // 图板在其父图板中的输出路径（不考虑自身的子图板）
+  const getBasePath = (board: string): string => {
+    if (board === "") {
+      return outputFilePath;
+    }
+    const { parent, kind, name } = parents.get(board)!;
+    const parentPath = getBasePath(parent);
+    return join(childKinds(parent).size > 1 ? join(parentPath, kind) : parentPath, name);
+  };
+
+  if (target !== "" && !parents.has(target)) {
+    return null;
+  }
+  const basePath = getBasePath(target);
+  return childKinds(target).size > 0 ? join(basePath, "index") : basePath;
+}
+
+/**
+ * 将 d2 输出目录中需要的图板移动到各自的输出文件
+ * @param job 渲染任务
+ * @param boards 需要的图板及其输出文件
+ */
+function collectBoardOutputs(job: RenderJob, boards: BoardOutput[]) {
+  const boardTargets = findBoards(removeCommentsFromD2(job.input)).map((board) => board.target);
+  for (const board of boards) {
+    const filePath = getBoardFilePath(job.outputFilePath, board.target, boardTargets);
+    if (filePath && fs.existsSync(filePath)) {
+      fs.renameSync(filePath, board.outputFilePath);
+    }
+  }
+}
+
+/**
+ * 异步运行 d2 并收集输出
+ * @param executable d2 可执行文件、环境变量和工作目录
+ * @param args 命令行参数
+ * @param input 写入标准输入的内容
+ * @returns 进程退出码和错误输出
+ */
+function spawnAsync(executable: D2Executable, args: string[], input: string): Promise<RenderJobResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(executable.command, args, {
+      stdio: ["pipe", "ignore", "pipe"],
+      env: executable.env,
+      cwd: executable.cwd,
+    });
+    let stderr = "";
+    child.stderr.setEncoding("utf-8");
+    child.stderr.on("data", (chunk: string) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("close", (status) => resolve({ status, stderr }));
+    // 进程提前退出时写入标准输入会触发 EPIPE，结果以退出码为准
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * 根据配置获取渲染后端
+ * @param config 配置对象
+ * @returns 渲染后端
+ */
+export function getBackend(config: Config): D2Backend {
+  return config.backend === Backend.WASM ? wasmBackend : cliBackend;
+}
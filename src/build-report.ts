@@ -0,0 +1,162 @@
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { Config } from "./config.js";
+import { DiagramSource } from "./cache-manifest.js";
+
+/**
+ * 单个图表生成失败的记录
+ */
+export interface DiagramFailure {
+  /** 页面路径（相对于 VitePress 源目录） */
+  page: string | null;
+  /** 代码块所在行号（从 1 开始） */
+  line: number | null;
+  /** d2 错误信息 */
+  message: string;
+  /** 生成图表时使用的配置 */
+  config: Config;
+}
+
+/**
+ * 构建报告选项
+ */
+interface BuildReportOptions {
+  /** 构建结束时存在失败的图表则以非零状态退出 */
+  strict: boolean;
+  /** JSON 报告文件路径 */
+  reportFile: string | null;
+}
+
+// 构建中失败的图表，键为图表的代码块位置 "页面:行号"，值为该图表的失败记录（键为问题位置和错误信息，避免客户端和 SSR 构建重复记录）
+const failures = new Map<string, Map<string, DiagramFailure>>();
+
+let options: BuildReportOptions = { strict: false, reportFile: null };
+
+// Vite 插件报告的命令是否为构建，未注册 Vite 插件时为 null
+let viteBuild: boolean | null = null;
+
+// 是否已输出报告
+let reported = false;
+
+// 是否已注册进程退出时输出报告
+let exitHookRegistered = false;
+
+/**
+ * 设置构建报告选项
+ * 未注册 Vite 插件时，在构建进程退出时输出报告并设置退出码；开发服务器不输出报告。
+ * @param config 默认配置
+ */
+export function configureBuildReport(config: Config) {
+  options = { strict: config.strict === true, reportFile: config.reportFile ?? null };
+
+  if ((options.strict || options.reportFile) && !exitHookRegistered) {
+    exitHookRegistered = true;
+    process.once("exit", () => {
+      if (!reported && isBuild() && writeBuildReport()) {
+        process.exitCode = 1;
+      }
+    });
+  }
+}
+
+/**
+ * 记录 Vite 的命令，由 Vite 插件在配置解析后调用
+ * @param build 是否为构建（vitepress build），否则为开发服务器
+ */
+export function setBuildCommand(build: boolean) {
+  viteBuild = build;
+}
+
+/**
+ * 检查当前进程是否在构建站点
+ * 未注册 Vite 插件时根据 NODE_ENV 判断，vitepress build 会将其设置为 production。
+ * @returns 如果是构建则返回 true
+ */
+function isBuild(): boolean {
+  return viteBuild ?? process.env.NODE_ENV === "production";
+}
+
+/**
+ * 获取图表在失败记录中的键
+ * @param source 代码块位置
+ * @returns 键，格式为 "页面:行号"
+ */
+function getFailureKey(source: DiagramSource): string {
+  return `${source.page}:${source.line}`;
+}
+
+/**
+ * 记录图表生成失败
+ * @param source 图表的代码块位置
+ * @param message d2 错误信息
+ * @param config 生成图表时使用的配置
+ * @param location 问题所在的位置，默认为图表的代码块位置
+ */
+export function recordDiagramFailure(source: DiagramSource, message: string, config: Config, location: DiagramSource = source) {
+  const key = getFailureKey(source);
+  let diagramFailures = failures.get(key);
+  if (!diagramFailures) {
+    diagramFailures = new Map();
+    failures.set(key, diagramFailures);
+  }
+
+  // d2Env 中可能包含许可证等敏感信息，报告中只保留变量名
+  const reportedConfig = config.d2Env
+    ? { ...config, d2Env: Object.fromEntries(Object.keys(config.d2Env).map((name) => [name, "***"])) }
+    : config;
+  diagramFailures.set(`${getFailureKey(location)}:${message}`, { page: location.page ?? null, line: location.line ?? null, message, config: reportedConfig });
+}
+
+/**
+ * 清除图表之前记录的失败，在每次重新渲染图表前调用
+ * 开发服务器中修复的图表重新渲染后不再出现在报告中。
+ * @param source 图表的代码块位置
+ */
+export function clearDiagramFailures(source: DiagramSource) {
+  failures.delete(getFailureKey(source));
+}
+
+/**
+ * 获取所有失败的图表
+ * @returns 失败记录
+ */
+function listFailures(): DiagramFailure[] {
+  return [...failures.values()].flatMap((diagramFailures) => [...diagramFailures.values()]);
+}
+
+/**
+ * 输出所有失败的图表并写入 JSON 报告文件
+ * @returns 严格模式下存在失败的图表时返回 true
+ */
+function writeBuildReport(): boolean {
+  reported = true;
+  const list = listFailures();
+
+  if (options.reportFile) {
+    mkdirSync(path.dirname(path.resolve(options.reportFile)), { recursive: true });
+    writeFileSync(options.reportFile, JSON.stringify({ failures: list }, null, 2));
+  }
+
+  if (list.length === 0) {
+    return false;
+  }
+
+  const summary = list
+    .map((failure) => {
+      const location = failure.page ? `${failure.page}${failure.line != null ? `:${failure.line}` : ""}` : "<unknown>";
+      return `  ${location}\n    ${failure.message.replace(/\n/g, "\n    ")}`;
+    })
+    .join("\n");
+  console.error(`${list.length} D2 diagram(s) failed to render:\n${summary}`);
+
+  return options.strict;
+}
+
+/**
+ * 在构建结束时输出失败的图表报告，严格模式下存在失败的图表时抛出错误使构建失败
+ */
+export function reportDiagramFailures() {
+  if (writeBuildReport()) {
+    throw new Error(`${listFailures().length} D2 diagram(s) failed to render, see the errors above.`);
+  }
+}
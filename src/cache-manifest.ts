@@ -0,0 +1,209 @@
+import fs, { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { CacheConfig, Config } from "./config.js";
+import { getBackend } from "./backend.js";
+
+/**
+ * 生成图表的代码块位置
+ */
+export interface DiagramSource {
+  /** 页面路径（相对于 VitePress 源目录） */
+  page?: string;
+  /** 代码块所在行号（从 1 开始） */
+  line?: number;
+  /** 图表代码所在文件的绝对路径（Markdown 页面或代码片段文件），D2 导入相对于该文件解析 */
+  file?: string;
+}
+
+/**
+ * 缓存清单中的单个图表记录
+ */
+export interface CacheEntry {
+  /** 生成该图表的 d2 版本 */
+  d2Version: string | null;
+  /** 图表生成时间（毫秒时间戳） */
+  createdAt: number;
+  /** 图表最近一次被引用的时间（毫秒时间戳） */
+  lastUsedAt: number;
+  /** 引用该图表的代码块，格式为 "页面:行号" */
+  references: string[];
+}
+
+/**
+ * 缓存清单，记录输出目录中每个图表文件的来源
+ */
+export interface CacheManifest {
+  version: 1;
+  entries: Record<string, CacheEntry>;
+}
+
+// 缓存清单文件名
+const MANIFEST_FILE_NAME = "manifest.json";
+
+// 图表文件名格式：d2-diagram-<hash>.<ext>
+const DIAGRAM_FILE_REGEX = /^d2-diagram-[0-9a-f]+\.[a-z0-9_]+$/;
+
+/**
+ * 单个输出目录的缓存状态
+ */
+interface CacheState {
+  manifest: CacheManifest;
+  /** 本次构建中被引用的图表文件名 */
+  used: Set<string>;
+  /** 缓存策略 */
+  policy: CacheConfig;
+}
+
+// 已加载的缓存状态，键为输出目录
+const cacheStates = new Map<string, CacheState>();
+
+// 是否已注册进程退出时保存清单
+let saveOnExitRegistered = false;
+
+/**
+ * 读取输出目录中的缓存清单
+ * @param outputDir 输出目录
+ * @returns 缓存清单，不存在或无法解析时返回空清单
+ */
+function readManifest(outputDir: string): CacheManifest {
+  const manifestPath = path.join(outputDir, MANIFEST_FILE_NAME);
+  if (existsSync(manifestPath)) {
+    try {
+      const manifest = JSON.parse(readFileSync(manifestPath, "utf-8"));
+      if (manifest?.version === 1 && manifest.entries) {
+        return manifest;
+      }
+    } catch (error) {
+      console.warn(`Ignoring invalid D2 cache manifest: ${manifestPath}`, error);
+    }
+  }
+  return { version: 1, entries: {} };
+}
+
+/**
+ * 获取输出目录的缓存状态（首次访问时加载清单）
+ * @param outputDir 输出目录
+ * @returns 缓存状态
+ */
+function getCacheState(outputDir: string): CacheState {
+  let state = cacheStates.get(outputDir);
+  if (!state) {
+    state = { manifest: readManifest(outputDir), used: new Set(), policy: {} };
+    cacheStates.set(outputDir, state);
+  }
+
+  if (!saveOnExitRegistered) {
+    saveOnExitRegistered = true;
+    process.once("exit", saveCacheManifests);
+  }
+
+  return state;
+}
+
+/**
+ * 记录图表文件被代码块引用
+ * @param imageFilePath 图表文件路径
+ * @param source 生成图表的代码块位置
+ * @param config 配置对象
+ * @param created 图表是否为本次新生成
+ */
+export function recordCacheEntry(imageFilePath: string, source: DiagramSource, config: Config, created = false) {
+  const state = getCacheState(path.dirname(imageFilePath));
+  const fileName = path.basename(imageFilePath);
+  const now = Date.now();
+
+  state.policy = config.cache ?? {};
+  let entry = state.manifest.entries[fileName];
+  if (!entry || created) {
+    entry = { d2Version: getBackend(config).getVersion(config), createdAt: now, lastUsedAt: now, references: [] };
+    state.manifest.entries[fileName] = entry;
+  }
+
+  // 本次构建首次引用时清空上次构建记录的引用
+  if (!state.used.has(fileName)) {
+    state.used.add(fileName);
+    entry.references = [];
+  }
+
+  entry.lastUsedAt = now;
+  if (source.page) {
+    const reference = source.line != null ? `${source.page}:${source.line}` : source.page;
+    if (!entry.references.includes(reference)) {
+      entry.references.push(reference);
+    }
+  }
+}
+
+/**
+ * 将所有已加载的缓存清单写回磁盘
+ */
+export function saveCacheManifests() {
+  for (const [outputDir, state] of cacheStates) {
+    if (!existsSync(outputDir)) {
+      continue;
+    }
+    writeFileSync(path.join(outputDir, MANIFEST_FILE_NAME), JSON.stringify(state.manifest, null, 2));
+  }
+}
+
+/**
+ * 清理输出目录中本次构建未引用的图表文件
+ * 默认删除所有未引用的图表；设置 maxAge 或 maxSize 时只删除超出保留策略的未引用图表。
+ * 本次构建没有引用任何图表的目录不会被清理，以免部分构建或出错的构建清空缓存。
+ * 应在构建结束、所有页面都已渲染后调用。
+ * @returns 被删除的图表文件路径
+ */
+export function pruneCache(): string[] {
+  const removed: string[] = [];
+
+  for (const [outputDir, state] of cacheStates) {
+    const { manifest, used, policy } = state;
+    if (policy.prune === false || used.size === 0 || !existsSync(outputDir)) {
+      continue;
+    }
+
+    // 收集未引用的图表文件，包括清单中缺失的旧文件
+    const unused: { fileName: string; lastUsedAt: number; size: number }[] = [];
+    let totalSize = 0;
+    for (const fileName of fs.readdirSync(outputDir)) {
+      if (!DIAGRAM_FILE_REGEX.test(fileName)) {
+        continue;
+      }
+      const stat = fs.statSync(path.join(outputDir, fileName));
+      totalSize += stat.size;
+      if (!used.has(fileName)) {
+        const lastUsedAt = manifest.entries[fileName]?.lastUsedAt ?? stat.mtimeMs;
+        unused.push({ fileName, lastUsedAt, size: stat.size });
+      }
+    }
+
+    // 最久未使用的排在前面
+    unused.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+
+    const now = Date.now();
+    const hasPolicy = policy.maxAge != null || policy.maxSize != null;
+    for (const file of unused) {
+      const expired = policy.maxAge != null && now - file.lastUsedAt > policy.maxAge;
+      const oversized = policy.maxSize != null && totalSize > policy.maxSize;
+      if (hasPolicy && !expired && !oversized) {
+        continue;
+      }
+
+      const filePath = path.join(outputDir, file.fileName);
+      fs.rmSync(filePath, { force: true });
+      delete manifest.entries[file.fileName];
+      totalSize -= file.size;
+      removed.push(filePath);
+    }
+
+    // 移除清单中文件已不存在的记录
+    for (const fileName of Object.keys(manifest.entries)) {
+      if (!existsSync(path.join(outputDir, fileName))) {
+        delete manifest.entries[fileName];
+      }
+    }
+  }
+
+  saveCacheManifests();
+  return removed;
+}
@@ -0,0 +1,327 @@
+#!/usr/bin/env node
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
+import MarkdownIt from "markdown-it";
+import type { Token } from "markdown-it";
+import { Backend, Config } from "./config.js";
+import { parseConfig, parseFenceAttributes } from "./config-parser.js";
+import { validateDiagramConfig, validatePluginOptions, validateTargets } from "./config-validator.js";
+import { D2CommandError, setCheckDirectory } from "./diagram-generator.js";
+import { assertD2Version, validateD2Executable } from "./d2-binary.js";
+import { getBackend } from "./backend.js";
+import { createIncludeRule } from "./include.js";
+import { renderDiagramAsync } from "./renderer.js";
+import { renderQueue } from "./render-queue.js";
+import { pruneCache } from "./cache-manifest.js";
+
+const USAGE = `Usage: vitepress-d2 [options] [dir]
+
+Render every D2 diagram in the markdown files under dir (default ".") into the diagram cache.
+
+Options:
+  --config <file>       Plugin options as a .json file or a .js module with a default export
+  --check               Only check that every diagram renders, without writing to the cache
+  --prune               Delete cached diagrams that no markdown file references
+  --concurrency <n>     Maximum number of d2 processes running at once
+  -h, --help            Show this help`;
+
+/**
+ * Markdown 文件中的一个 D2 图表
+ */
+interface DiagramBlock {
+  /** 代码块信息字符串，引入语法的属性转换为 "d2 {attrs}" */
+  info: string;
+  /** 代码内容，引入和代码片段为空 */
+  content: string;
+  /** 代码块开始行的行号（从 1 开始） */
+  line: number;
+  /** 引入 (@[d2](path)) 或代码片段 (<<< ./diagram.d2) 的文件的绝对路径 */
+  src?: string;
+  /** 是否为引入语法，引入的图表总是转换 */
+  include?: boolean;
+}
+
+/**
+ * 引入和代码片段规则生成的 fence token，src 为引入文件的路径
+ */
+type SourceToken = Token & { src?: string[] };
+
+/**
+ * 一个失败的图表或配置问题
+ */
+interface CliError {
+  /** 出错的位置，例如 "docs/guide.md:12" */
+  location: string;
+  /** 错误信息 */
+  message: string;
+}
+
+// 代码片段 (<<< ./diagram.d2)，@/ 开头的路径相对于源目录
+const SNIPPET_REGEX = /^<<<\s*(\S+?\.d2)(?:#[\w-]+)?(?:\{[^}]*\})?\s*$/;
+
+/**
+ * 递归查找目录中的所有 Markdown 文件，跳过 node_modules 和以 . 开头的目录
+ * @param dir 目录
+ * @returns Markdown 文件的绝对路径
+ */
+function findMarkdownFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && entry.name !== "node_modules") {
+        files.push(...findMarkdownFiles(entryPath));
+      }
+    } else if (entry.name.endsWith(".md")) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * 创建解析代码片段 (<<< ./diagram.d2) 的 markdown-it 块规则
+ * 与 VitePress 的代码片段规则一样生成带 src 的 fence token，只处理 .d2 文件。
+ * @param srcDir 源目录，用于解析 @/ 开头的路径
+ * @returns markdown-it 块规则
+ */
+function createSnippetRule(srcDir: string) {
+  return (state: any, startLine: number, _endLine: number, silent: boolean): boolean => {
+    // 缩进 4 个空格以上为代码块
+    if (state.sCount[startLine] - state.blkIndent >= 4) {
+      return false;
+    }
+
+    const start = state.bMarks[startLine] + state.tShift[startLine];
+    const snippet = state.src.slice(start, state.eMarks[startLine]).match(SNIPPET_REGEX);
+    if (!snippet) {
+      return false;
+    }
+    if (silent) {
+      return true;
+    }
+
+    const file: string = snippet[1];
+    const token = state.push("fence", "code", 0);
+    token.info = "d2";
+    token.content = "";
+    token.markup = "```";
+    token.map = [startLine, startLine + 1];
+    token.src = [file.startsWith("@/") ? path.resolve(srcDir, file.slice(2)) : path.resolve(path.dirname(state.env.path), file)];
+
+    state.line = startLine + 1;
+    return true;
+  };
+}
+
+/**
+ * 创建查找图表的 Markdown 解析器，与插件一样解析引入语法，并解析 VitePress 的代码片段
+ * @param srcDir 源目录
+ * @param config 默认配置
+ * @returns markdown-it 实例
+ */
+function createMarkdownParser(srcDir: string, config: Config): MarkdownIt {
+  const md = new MarkdownIt();
+  const alt = ["paragraph", "reference", "blockquote", "list"];
+  md.block.ruler.before("fence", "d2_include", createIncludeRule(config), { alt });
+  md.block.ruler.before("fence", "d2_snippet", createSnippetRule(srcDir), { alt });
+  return md;
+}
+
+/**
+ * 查找 Markdown 中的 D2 代码块、引入和代码片段
+ * 使用 markdown-it 解析，引用块和列表等容器中的代码块与构建时一样被找到。
+ * @param md Markdown 解析器
+ * @param markdown Markdown 内容
+ * @param filePath Markdown 文件的绝对路径
+ * @returns D2 图表
+ */
+function findDiagramBlocks(md: MarkdownIt, markdown: string, filePath: string): DiagramBlock[] {
+  const blocks: DiagramBlock[] = [];
+
+  for (const token of md.parse(markdown, { path: filePath }) as SourceToken[]) {
+    const info = token.info.trim();
+    if (token.type !== "fence" || !info.startsWith("d2")) {
+      continue;
+    }
+    const [src] = token.src ?? [];
+    blocks.push({ info, content: token.content, line: token.map![0] + 1, src, include: token.meta?.d2Include === true });
+  }
+
+  return blocks;
+}
+
+/**
+ * 读取插件配置文件
+ * @param configFile .json 文件或默认导出配置的 .js 模块
+ * @returns 插件配置
+ */
+async function loadConfig(configFile: string | undefined): Promise<Config> {
+  if (!configFile) {
+    return {};
+  }
+  const filePath = path.resolve(configFile);
+  if (filePath.endsWith(".json")) {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  }
+  const module = await import(pathToFileURL(filePath).href);
+  return module.default ?? {};
+}
+
+/**
+ * 检查并渲染 Markdown 文件中的所有图表
+ * @param md Markdown 解析器
+ * @param filePath Markdown 文件的绝对路径
+ * @param srcDir 源目录
+ * @param defaultConfig 默认配置
+ * @returns 图表数量和错误
+ */
+async function processFile(md: MarkdownIt, filePath: string, srcDir: string, defaultConfig: Config): Promise<{ count: number; errors: CliError[] }> {
+  const file = path.relative(process.cwd(), filePath);
+  const errors: CliError[] = [];
+
+  const blocks = findDiagramBlocks(md, fs.readFileSync(filePath, "utf-8"), filePath).filter(
+    (block) => block.include || !defaultConfig.onlyConvertMarkedImage || /:image\b/.test(block.info),
+  );
+
+  await Promise.all(
+    blocks.map(async (block) => {
+      const location = `${file}:${block.line}`;
+      let content = block.content.trim();
+      if (block.src) {
+        if (!fs.existsSync(block.src)) {
+          errors.push({ location, message: `D2 file not found: ${path.relative(process.cwd(), block.src)}` });
+          return;
+        }
+        content = fs.readFileSync(block.src, "utf-8").trim();
+      }
+      if (!content) {
+        return;
+      }
+
+      const { config, code } = parseConfig(content, defaultConfig, parseFenceAttributes(block.info));
+
+      // 配置问题，引入文件中的问题位置为该文件中的行号
+      for (const diagnostic of [...validateDiagramConfig(content, block.info), ...validateTargets(code, config)]) {
+        const diagnosticLocation =
+          block.src && diagnostic.line > 0 ? `${path.relative(process.cwd(), block.src)}:${diagnostic.line}` : `${file}:${block.line + diagnostic.line}`;
+        errors.push({ location: diagnosticLocation, message: diagnostic.message });
+      }
+
+      try {
+        await renderDiagramAsync(code, config, {
+          page: path.relative(srcDir, filePath),
+          line: block.line,
+          file: block.src ?? filePath,
+        });
+      } catch (error) {
+        const message = error instanceof D2CommandError ? error.stderr.trim() : error instanceof Error ? error.message : String(error);
+        errors.push({ location, message });
+      }
+    }),
+  );
+
+  return { count: blocks.length, errors };
+}
+
+/**
+ * 命令行入口
+ * @param argv 命令行参数
+ * @returns 退出码
+ */
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: "string" },
+      check: { type: "boolean", default: false },
+      prune: { type: "boolean", default: false },
+      concurrency: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (values.check && values.prune) {
+    console.error("--check and --prune cannot be used together");
+    return 2;
+  }
+  if (values.concurrency != null && !/^[1-9]\d*$/.test(values.concurrency)) {
+    console.error(`--concurrency must be a positive integer, got "${values.concurrency}"`);
+    return 2;
+  }
+
+  const srcDir = path.resolve(positionals[0] ?? ".");
+  const defaultConfig = await loadConfig(values.config);
+  for (const message of validatePluginOptions(defaultConfig as Record<string, unknown>)) {
+    console.warn(`Invalid D2 plugin options: ${message}`);
+  }
+
+  // WASM 后端不需要 d2 可执行文件，先加载模块以便立即报告缺少的依赖
+  if (defaultConfig.backend === Backend.WASM) {
+    await getBackend(defaultConfig).prepare(defaultConfig);
+  } else {
+    validateD2Executable(defaultConfig);
+    if (defaultConfig.minD2Version) {
+      assertD2Version(defaultConfig.minD2Version, defaultConfig);
+    }
+  }
+
+  const concurrency = values.concurrency != null ? Number(values.concurrency) : defaultConfig.concurrency;
+  if (concurrency != null) {
+    renderQueue.setConcurrency(concurrency);
+  }
+
+  // 检查模式下使用缓存中已有的图表，未命中的图表生成到临时目录，结束后删除
+  const checkDirectory = values.check ? fs.mkdtempSync(path.join(os.tmpdir(), "vitepress-d2-")) : null;
+  setCheckDirectory(checkDirectory);
+
+  let count = 0;
+  const errors: CliError[] = [];
+  const files = findMarkdownFiles(srcDir);
+  const md = createMarkdownParser(srcDir, defaultConfig);
+  try {
+    // 所有文件的图表同时进入渲染队列，由 --concurrency 限制同时运行的渲染数量
+    const results = await Promise.all(files.map((filePath) => processFile(md, filePath, srcDir, defaultConfig)));
+    for (const result of results) {
+      count += result.count;
+      errors.push(...result.errors);
+    }
+  } finally {
+    if (checkDirectory) {
+      setCheckDirectory(null);
+      fs.rmSync(checkDirectory, { recursive: true, force: true });
+    }
+  }
+
+  for (const { location, message } of errors) {
+    console.error(`${location}: ${message.replace(/\n/g, "\n  ")}`);
+  }
+
+  // 所有图表都渲染成功时才清理缓存，以免删除仍被引用但本次失败的图表
+  if (values.prune && errors.length === 0) {
+    const removed = pruneCache();
+    console.log(`Pruned ${removed.length} unused diagram(s).`);
+  }
+
+  const action = values.check ? "Checked" : "Rendered";
+  console.log(`${action} ${count} diagram(s) in ${files.length} file(s), ${errors.length} error(s).`);
+  return errors.length > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  },
+);
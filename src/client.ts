@@ -0,0 +1,449 @@
+/**
+ * 图表查看器选项
+ */
+export interface D2ViewerOptions {
+  /** 需要添加查看器的图表选择器 (default ".d2-diagram") */
+  selector?: string;
+  /** 最小缩放比例 (default 0.1) */
+  minZoom?: number;
+  /** 最大缩放比例 (default 10) */
+  maxZoom?: number;
+  /** 每次缩放的倍数 (default 1.25) */
+  zoomStep?: number;
+}
+
+// 已添加查看器的图表标记
+const ENHANCED_ATTRIBUTE = "data-d2-viewer";
+
+// 查看器样式元素 ID
+const VIEWER_STYLE_ID = "d2-viewer-style";
+
+// 图板导航样式元素 ID
+const BOARDS_STYLE_ID = "d2-boards-style";
+
+// 平移快捷键每次移动的像素
+const PAN_STEP = 40;
+
+const VIEWER_STYLE = `
+.d2-viewer { position: relative; overflow: hidden; margin: 16px 0; border: 1px solid var(--vp-c-divider, #e2e2e3); border-radius: 8px; outline: none; cursor: grab; touch-action: none; }
+.d2-viewer:focus-visible { border-color: var(--vp-c-brand-1, #3451b2); }
+.d2-viewer.d2-viewer-panning { cursor: grabbing; user-select: none; }
+.d2-viewer-content { transform-origin: 0 0; }
+.d2-viewer-content > .d2-diagram { display: block; max-width: none; }
+.d2-viewer-toolbar { position: absolute; top: 8px; right: 8px; z-index: 1; display: flex; gap: 4px; opacity: 0; transition: opacity 0.2s; }
+.d2-viewer:hover .d2-viewer-toolbar, .d2-viewer:focus-within .d2-viewer-toolbar, .d2-viewer-fullscreen .d2-viewer-toolbar { opacity: 1; }
+.d2-viewer-toolbar button { min-width: 28px; height: 28px; padding: 0 6px; border: 1px solid var(--vp-c-divider, #e2e2e3); border-radius: 4px; background: var(--vp-c-bg, #fff); color: var(--vp-c-text-1, #213547); font-size: 14px; line-height: 1; cursor: pointer; }
+.d2-viewer-toolbar button:hover { border-color: var(--vp-c-brand-1, #3451b2); }
+.d2-viewer-fullscreen { position: fixed; inset: 0; z-index: 1000; margin: 0; border: none; border-radius: 0; background: var(--vp-c-bg, #fff); }
+`;
+
+const BOARDS_STYLE = `
+.d2-boards-nav { display: flex; align-items: center; gap: 4px; margin: 16px 0 8px; }
+.d2-boards-tabs { display: flex; flex: 1; gap: 4px; overflow-x: auto; }
+.d2-boards-nav button { flex: none; min-width: 28px; height: 28px; padding: 0 10px; border: 1px solid var(--vp-c-divider, #e2e2e3); border-radius: 4px; background: var(--vp-c-bg, #fff); color: var(--vp-c-text-2, #3c3c43); font-size: 14px; line-height: 1; cursor: pointer; }
+.d2-boards-nav button:hover:not(:disabled) { border-color: var(--vp-c-brand-1, #3451b2); }
+.d2-boards-nav button:disabled { opacity: 0.4; cursor: default; }
+.d2-boards-tab[aria-selected="true"] { border-color: var(--vp-c-brand-1, #3451b2); color: var(--vp-c-brand-1, #3451b2); font-weight: 600; }
+`;
+
+/**
+ * 单个图表的缩放和平移状态
+ */
+interface ViewerState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * 在页面中插入样式
+ * @param id 样式元素 ID，已存在时不重复插入
+ * @param css 样式内容
+ */
+function injectStyle(id: string, css: string) {
+  if (document.getElementById(id)) {
+    return;
+  }
+  const style = document.createElement("style");
+  style.id = id;
+  style.textContent = css;
+  document.head.appendChild(style);
+}
+
+/**
+ * 在 VitePress 应用挂载（水合）完成后处理页面，并在页面切换和热更新后重新处理新渲染的内容
+ * 在挂载前修改页面会导致水合不匹配。
+ * @param styleId 样式元素 ID
+ * @param css 样式内容
+ * @param enhance 处理页面的函数，需要跳过已处理的元素
+ */
+function enhanceWhenMounted(styleId: string, css: string, enhance: () => void) {
+  const start = () => {
+    injectStyle(styleId, css);
+    enhance();
+    new MutationObserver(enhance).observe(document.body, { childList: true, subtree: true });
+  };
+
+  const waitForMount = () => {
+    const container = document.getElementById("app") as (HTMLElement & { __vue_app__?: unknown }) | null;
+    if (container && !container.__vue_app__) {
+      requestAnimationFrame(waitForMount);
+      return;
+    }
+    start();
+  };
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", waitForMount, { once: true });
+  } else {
+    waitForMount();
+  }
+}
+
+/**
+ * 创建工具栏按钮
+ * @param label 按钮文本
+ * @param title 按钮说明
+ * @param onClick 点击时执行的操作
+ * @returns 按钮元素
+ */
+function createButton(label: string, title: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.textContent = label;
+  button.title = title;
+  button.setAttribute("aria-label", title);
+  button.addEventListener("click", (event) => {
+    event.stopPropagation();
+    onClick();
+  });
+  return button;
+}
+
+/**
+ * 为单个图表添加缩放、平移、适应宽度、全屏和键盘操作
+ * @param diagram 图表元素
+ * @param options 查看器选项
+ */
+function enhanceDiagram(diagram: HTMLElement, options: Required<D2ViewerOptions>) {
+  diagram.setAttribute(ENHANCED_ATTRIBUTE, "");
+
+  const viewer = document.createElement("div");
+  viewer.className = "d2-viewer";
+  viewer.tabIndex = 0;
+  viewer.setAttribute("role", "group");
+  viewer.setAttribute("aria-label", "D2 diagram viewer. Use + and - to zoom, arrow keys to pan, 0 to reset, W to fit width and F for fullscreen.");
+
+  const content = document.createElement("div");
+  content.className = "d2-viewer-content";
+
+  diagram.parentNode!.insertBefore(viewer, diagram);
+  content.appendChild(diagram);
+
+  const state: ViewerState = { scale: 1, x: 0, y: 0 };
+
+  const apply = () => {
+    content.style.transform = `translate(${state.x}px, ${state.y}px) scale(${state.scale})`;
+  };
+
+  // 以视口中的某一点为中心缩放，默认为视口中心
+  const zoomTo = (scale: number, originX = viewer.clientWidth / 2, originY = viewer.clientHeight / 2) => {
+    const next = Math.min(Math.max(scale, options.minZoom), options.maxZoom);
+    state.x = originX - ((originX - state.x) * next) / state.scale;
+    state.y = originY - ((originY - state.y) * next) / state.scale;
+    state.scale = next;
+    apply();
+  };
+
+  const reset = () => {
+    state.scale = 1;
+    state.x = 0;
+    state.y = 0;
+    apply();
+  };
+
+  // offsetWidth 不受 transform 影响，即图表的原始宽度
+  const fitWidth = () => {
+    const width = diagram.offsetWidth;
+    if (width > 0) {
+      state.scale = Math.min(Math.max(viewer.clientWidth / width, options.minZoom), options.maxZoom);
+      state.x = 0;
+      state.y = 0;
+      apply();
+    }
+  };
+
+  const toggleFullscreen = () => {
+    const fullscreen = viewer.classList.toggle("d2-viewer-fullscreen");
+    document.documentElement.style.overflow = fullscreen ? "hidden" : "";
+    viewer.focus();
+    fitWidth();
+  };
+
+  const toolbar = document.createElement("div");
+  toolbar.className = "d2-viewer-toolbar";
+  toolbar.append(
+    createButton("+", "Zoom in", () => zoomTo(state.scale * options.zoomStep)),
+    createButton("−", "Zoom out", () => zoomTo(state.scale / options.zoomStep)),
+    createButton("↔", "Fit to width", fitWidth),
+    createButton("1:1", "Reset zoom", reset),
+    createButton("⛶", "Toggle fullscreen", toggleFullscreen),
+  );
+
+  viewer.append(toolbar, content);
+
+  // 按住 Ctrl 或 Command 时滚轮缩放，否则保留页面滚动
+  viewer.addEventListener(
+    "wheel",
+    (event) => {
+      if (!event.ctrlKey && !event.metaKey) {
+        return;
+      }
+      event.preventDefault();
+      const rect = viewer.getBoundingClientRect();
+      const factor = event.deltaY < 0 ? options.zoomStep : 1 / options.zoomStep;
+      zoomTo(state.scale * factor, event.clientX - rect.left, event.clientY - rect.top);
+    },
+    { passive: false },
+  );
+
+  // 拖动平移
+  let pointer: { id: number; x: number; y: number } | null = null;
+  viewer.addEventListener("pointerdown", (event) => {
+    if (event.button !== 0 || toolbar.contains(event.target as Node)) {
+      return;
+    }
+    pointer = { id: event.pointerId, x: event.clientX - state.x, y: event.clientY - state.y };
+    viewer.setPointerCapture(event.pointerId);
+    viewer.classList.add("d2-viewer-panning");
+  });
+  viewer.addEventListener("pointermove", (event) => {
+    if (pointer?.id !== event.pointerId) {
+      return;
+    }
+    state.x = event.clientX - pointer.x;
+    state.y = event.clientY - pointer.y;
+    apply();
+  });
+  const endPan = (event: PointerEvent) => {
+    if (pointer?.id === event.pointerId) {
+      pointer = null;
+      viewer.classList.remove("d2-viewer-panning");
+    }
+  };
+  viewer.addEventListener("pointerup", endPan);
+  viewer.addEventListener("pointercancel", endPan);
+
+  // 双击切换全屏
+  viewer.addEventListener("dblclick", (event) => {
+    if (!toolbar.contains(event.target as Node)) {
+      toggleFullscreen();
+    }
+  });
+
+  viewer.addEventListener("keydown", (event) => {
+    if (event.ctrlKey || event.metaKey || event.altKey) {
+      return;
+    }
+
+    switch (event.key) {
+      case "+":
+      case "=":
+        zoomTo(state.scale * options.zoomStep);
+        break;
+      case "-":
+      case "_":
+        zoomTo(state.scale / options.zoomStep);
+        break;
+      case "0":
+        reset();
+        break;
+      case "w":
+      case "W":
+        fitWidth();
+        break;
+      case "f":
+      case "F":
+        toggleFullscreen();
+        break;
+      case "Escape":
+        if (!viewer.classList.contains("d2-viewer-fullscreen")) {
+          return;
+        }
+        toggleFullscreen();
+        break;
+      case "ArrowLeft":
+        state.x += PAN_STEP;
+        apply();
+        break;
+      case "ArrowRight":
+        state.x -= PAN_STEP;
+        apply();
+        break;
+      case "ArrowUp":
+        state.y += PAN_STEP;
+        apply();
+        break;
+      case "ArrowDown":
+        state.y -= PAN_STEP;
+        apply();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  });
+}
+
+/**
+ * 为页面中的所有图表添加查看器
+ * @param root 查找图表的根节点
+ * @param options 查看器选项
+ */
+function enhanceDiagrams(root: ParentNode, options: Required<D2ViewerOptions>) {
+  root.querySelectorAll<HTMLElement>(options.selector).forEach((diagram) => {
+    // 跳过已添加查看器的图表和错误面板中的内容
+    if (diagram.hasAttribute(ENHANCED_ATTRIBUTE) || diagram.closest(".d2-error") || !diagram.parentNode) {
+      return;
+    }
+    enhanceDiagram(diagram, options);
+  });
+}
+
+/**
+ * 启用图表查看器，为页面中的 D2 图表添加缩放、平移、适应宽度、全屏和键盘操作
+ * 在 VitePress 主题的 enhanceApp 中调用，应用挂载后开始处理，页面切换和热更新后新渲染的图表会自动添加查看器。
+ * 服务端渲染时不执行任何操作。
+ * @param options 查看器选项
+ */
+export function enableD2Viewer(options: D2ViewerOptions = {}) {
+  if (typeof window === "undefined" || typeof document === "undefined") {
+    return;
+  }
+
+  const resolved: Required<D2ViewerOptions> = {
+    selector: options.selector ?? ".d2-diagram",
+    minZoom: options.minZoom ?? 0.1,
+    maxZoom: options.maxZoom ?? 10,
+    zoomStep: options.zoomStep ?? 1.25,
+  };
+
+  enhanceWhenMounted(VIEWER_STYLE_ID, VIEWER_STYLE, () => enhanceDiagrams(document, resolved));
+}
+
+// 已添加导航的图板容器，值为根据 URL 哈希选中图板的函数
+const boardSelectors = new Map<HTMLElement, (hash: string) => boolean>();
+
+/**
+ * 获取当前 URL 哈希（不包含 #）
+ * @returns 解码后的 URL 哈希
+ */
+function getLocationHash(): string {
+  return decodeURIComponent(location.hash.slice(1));
+}
+
+/**
+ * 为按图板分开渲染的 composition 添加图板切换、上一个/下一个按钮、键盘操作和 URL 哈希
+ * @param container 图板容器
+ */
+function enhanceBoards(container: HTMLElement) {
+  container.setAttribute(ENHANCED_ATTRIBUTE, "");
+
+  const tabs = Array.from(container.querySelectorAll<HTMLButtonElement>(":scope > .d2-boards-nav .d2-boards-tab"));
+  const panels = Array.from(container.querySelectorAll<HTMLElement>(":scope > .d2-board"));
+  const prev = container.querySelector<HTMLButtonElement>(":scope > .d2-boards-nav > .d2-boards-prev");
+  const next = container.querySelector<HTMLButtonElement>(":scope > .d2-boards-nav > .d2-boards-next");
+  let current = 0;
+
+  const select = (index: number, updateHash: boolean) => {
+    if (index < 0 || index >= panels.length) {
+      return;
+    }
+    current = index;
+    panels.forEach((panel, i) => (panel.hidden = i !== index));
+    tabs.forEach((tab, i) => {
+      tab.setAttribute("aria-selected", String(i === index));
+      tab.tabIndex = i === index ? 0 : -1;
+    });
+    if (prev) {
+      prev.disabled = index === 0;
+    }
+    if (next) {
+      next.disabled = index === panels.length - 1;
+    }
+    if (updateHash) {
+      history.replaceState(history.state, "", `#${encodeURIComponent(panels[index].id)}`);
+    }
+  };
+
+  tabs.forEach((tab, i) => tab.addEventListener("click", () => select(i, true)));
+  prev?.addEventListener("click", () => select(current - 1, true));
+  next?.addEventListener("click", () => select(current + 1, true));
+
+  // 在图板标签上使用方向键、Home 和 End 切换图板
+  container.querySelector(":scope > .d2-boards-nav > .d2-boards-tabs")?.addEventListener("keydown", (event) => {
+    const key = (event as KeyboardEvent).key;
+    const index =
+      key === "ArrowLeft" ? current - 1 : key === "ArrowRight" ? current + 1 : key === "Home" ? 0 : key === "End" ? panels.length - 1 : -1;
+    if (index < 0 || index >= panels.length) {
+      return;
+    }
+    event.preventDefault();
+    select(index, true);
+    tabs[index]?.focus();
+  });
+
+  const selectHash = (hash: string): boolean => {
+    const index = panels.findIndex((panel) => panel.id === hash);
+    if (index === -1) {
+      return false;
+    }
+    select(index, false);
+    container.scrollIntoView();
+    return true;
+  };
+  boardSelectors.set(container, selectHash);
+
+  select(0, false);
+  selectHash(getLocationHash());
+}
+
+/**
+ * 为页面中所有按图板分开渲染的 composition 添加导航
+ */
+function enhanceAllBoards() {
+  // 移除已不在页面中的图板容器
+  for (const container of boardSelectors.keys()) {
+    if (!container.isConnected) {
+      boardSelectors.delete(container);
+    }
+  }
+
+  document.querySelectorAll<HTMLElement>(".d2-boards").forEach((container) => {
+    if (!container.hasAttribute(ENHANCED_ATTRIBUTE)) {
+      enhanceBoards(container);
+    }
+  });
+}
+
+/**
+ * 启用图板导航，使 composition: "boards" 渲染的图表可以通过标签和上一个/下一个按钮切换图板
+ * 选中的图板会写入 URL 哈希，打开带有图板哈希的链接时自动选中该图板。
+ * 在 VitePress 主题的 enhanceApp 中调用，服务端渲染时不执行任何操作。
+ */
+export function enableD2Boards() {
+  if (typeof window === "undefined" || typeof document === "undefined") {
+    return;
+  }
+
+  window.addEventListener("hashchange", () => {
+    const hash = getLocationHash();
+    for (const selectHash of boardSelectors.values()) {
+      if (selectHash(hash)) {
+        break;
+      }
+    }
+  });
+
+  enhanceWhenMounted(BOARDS_STYLE_ID, BOARDS_STYLE, enhanceAllBoards);
+}
@@ -1,190 +1,230 @@
-import { Config, Layout, FileType, Theme, D2Config } from "./config.js";
-import { getD2ConfigContent, removeCommentsFromD2, hasComposition } from "./d2-helper.js";
+import { Config, Layout, Theme, D2Config } from "./config.js";
+import { CONFIG_OPTIONS, D2_CONFIG_OPTIONS, OptionSchema, parseOptionValue, stripQuotes } from "./config-schema.js";
+import { D2Map, getD2ConfigContent, parseD2Map, removeCommentsFromD2, hasComposition } from "./d2-helper.js";
 
 /**
- * 解析代码块中图表配置的函数。
+ * 配置块中的一个参数
+ */
+export interface ConfigFlag {
+  /** 参数名，例如 "--layout" */
+  key: string;
+  /** 参数值，没有值的布尔参数为 "true" */
+  value: string;
+  /** 参数所在行（代码内容中的行号，从 1 开始） */
+  line: number;
+}
+
+/**
+ * 读取代码块顶部配置块中的参数
  * 使用第一对三引号 (""") 作为配置分隔符。
  * 第一个三引号后面必须跟一个换行符 ("""\n)。
- * 支持命令行参数格式，例如：
- *   --layout=elk
- *   --theme 200
- *   --sketch
  * @param code D2 图表代码。
- * @returns 配置和代码（配置已移除）。
+ * @returns 配置块中的参数和移除配置块后的代码。
  */
-export function parseAndConvertConfig(code: string): {
-  config: Config;
-  code: string;
-} {
+export function readConfigFlags(code: string): { flags: ConfigFlag[]; code: string } {
   // 定义使用第一对三引号解析配置的正则表达式
   // 模式在字符串开头查找""", 后跟一个换行符, 然后捕获配置内容直到下一个"""
   const configRegex = /^"""\n([\s\S]*?)"""\s*\n?/;
-  const config: Config = {};
 
   // 从代码块中解析配置
   const match = code.match(configRegex);
   if (!match || !match[1]) {
-    return { config, code };
+    return { flags: [], code };
   }
 
-  // 字符串配置的临时存储
-  const userConfig: Record<string, string> = {};
-  const configContent = match[1].trim();
-  const configLines = configContent.split("\n");
+  const flags: ConfigFlag[] = [];
+  const configLines = match[1].split("\n");
 
-  for (const line of configLines) {
+  configLines.forEach((line, index) => {
     const trimmedLine = line.trim();
     if (!trimmedLine || !trimmedLine.startsWith("--")) {
-      continue;
+      return;
     }
 
+    // 配置内容从第 2 行开始（第 1 行为 """）
+    const lineNumber = index + 2;
+
     // 检查是否有 "=" 分隔符
     if (trimmedLine.includes("=")) {
-      const [key, value] = line.split("=").map((s) => s.trim());
-      userConfig[key] = value;
+      const separator = trimmedLine.indexOf("=");
+      flags.push({ key: trimmedLine.slice(0, separator).trim(), value: trimmedLine.slice(separator + 1).trim(), line: lineNumber });
     } else {
       // 使用空格分隔符
-      const [key, value] = line.split(/\s+/).map((s) => s.trim());
+      const [key, ...value] = trimmedLine.split(/\s+/);
       // 如果参数没有值（布尔参数），则设置为 "true"
-      userConfig[key] = value ? value : "true";
+      flags.push({ key, value: value.length > 0 ? value.join(" ") : "true", line: lineNumber });
     }
-  }
+  });
 
   // 通过移除配置块来清理图表代码（仅第一次出现）
-  let cleanedCode = code;
-  if (match) {
-    cleanedCode = code.replace(configRegex, "").trim();
-  }
+  return { flags, code: code.replace(configRegex, "").trim() };
+}
+
+/**
+ * 解析代码块中图表配置的函数。
+ * 支持命令行参数格式，例如：
+ *   --layout=elk
+ *   --theme 200
+ *   --sketch
+ * 未知的参数和无效的值会被忽略，见 validateDiagramConfig。
+ * @param code D2 图表代码。
+ * @returns 配置和代码（配置已移除）。
+ */
+export function parseAndConvertConfig(code: string): {
+  config: Config;
+  code: string;
+} {
+  const config: Config = {};
+  const { flags, code: cleanedCode } = readConfigFlags(code);
 
   // 将字符串配置转换为实际配置值
-  for (const [key, stringValue] of Object.entries(userConfig)) {
-    switch (key) {
-      case "--force-appendix":
-        config.forceAppendix = stringValue === "true";
-        break;
-      case "--layout":
-        // 将输入值转为大写，以匹配枚举键
-        config.layout = Layout[stringValue.toUpperCase() as keyof typeof Layout];
-        break;
-      case "--theme":
-        // 检查值是否为数字字符串，如果是则转换为数字
-        if (!isNaN(Number(stringValue))) {
-          config.theme = Number(stringValue);
-        }
-        break;
-      case "--dark-theme":
-        // 检查值是否为数字字符串，如果是则转换为数字
-        if (!isNaN(Number(stringValue))) {
-          config.darkTheme = Number(stringValue);
-        }
-        break;
-      case "--pad":
-        config.pad = parseInt(stringValue, 10);
-        break;
-      case "--animate-interval":
-        config.animateInterval = parseInt(stringValue, 10);
-        break;
-      case "--timeout":
-        config.timeout = parseInt(stringValue, 10);
-        break;
-      case "--sketch":
-        config.sketch = stringValue === "true";
-        break;
-      case "--center":
-        config.center = stringValue === "true";
-        break;
-      case "--scale":
-        config.scale = parseFloat(stringValue);
-        break;
-      case "--target":
-        config.target = stringValue;
-        break;
-      case "--stdout-format":
-        // 将值转为大写，以匹配枚举键
-        config.stdoutFormat = FileType[stringValue.toUpperCase() as keyof typeof FileType];
-        break;
-      case "--directory":
-        config.directory = stringValue;
-        break;
-    }
+  for (const { key, value } of flags) {
+    applyConfigOption(config, key, value);
   }
 
   return { config, code: cleanedCode };
 }
 
 /**
- * 解析 d2-config 内容并返回 D2Config 对象
- * @param content d2-config 内容
- * @returns 解析出的 D2Config 对象
+ * 根据参数名查找配置项
+ * 比较时忽略大小写和 "-"，因此 d2 的参数名（例如 "--elk-nodeSelfLoop"）和属性名（例如 "elk-node-self-loop"）都可以使用。
+ * @param flag 参数名，例如 "--layout"
+ * @returns 配置项，未知的参数返回 undefined
  */
-function parseAndConvertD2Config(code: string): D2Config {
-  const d2Config: D2Config = {};
+export function findConfigOption(flag: string): OptionSchema | undefined {
+  const normalize = (name: string) => name.replace(/-/g, "").toLowerCase();
+  return CONFIG_OPTIONS.find((option) => option.flag && normalize(option.flag) === normalize(flag));
+}
 
-  const content = getD2ConfigContent(code);
-  if (content.length === 0) {
-    return d2Config;
+/**
+ * 将单个命令行参数格式的配置项转换为配置值，未知的参数和无效的值会被忽略
+ * @param config 配置对象
+ * @param key 参数名，例如 "--layout"
+ * @param stringValue 参数值
+ */
+function applyConfigOption(config: Config, key: string, stringValue: string) {
+  const option = findConfigOption(key);
+  if (!option) {
+    return;
   }
 
-  // 按行分割配置内容并解析
-  const configLines = content.split("\n");
+  const result = parseOptionValue(option, stringValue);
+  if (result) {
+    (config as Record<string, unknown>)[option.key] = result.value;
+  }
+}
 
-  for (const line of configLines) {
-    if (!line) {
-      // 跳过空行
-      continue;
-    }
+/**
+ * 读取代码块的属性
+ * 属性写在语言名称后的花括号中，例如 ```d2 {layout=elk theme=200 sketch title="Auth flow" width=600}
+ * VitePress 的 markdown-it-attrs 会将花括号中的属性从信息字符串移到 token.attrs 中，因此两处都需要读取。
+ * @param info 代码块信息字符串
+ * @param attrs markdown-it-attrs 解析出的属性
+ * @returns 属性名和属性值，没有值的属性值为空字符串
+ */
+export function readFenceAttributes(info: string, attrs: [string, string][] | null = null): [string, string][] {
+  const attributes: [string, string][] = [];
 
-    // 解析键值对
-    const parts = line.split(":");
-    if (parts.length != 2) {
-      continue;
-    }
-    const key = parts[0].trim();
-    const stringValue = parts[1].trim();
-
-    // 根据键映射到 D2Config 接口
-    switch (key) {
-      case "layout-engine":
-        // 移除值两端的引号（如果存在）
-        d2Config.layoutEngine = stripQuotes(stringValue);
-        break;
-      case "theme-id":
-        d2Config.themeID = parseInt(stringValue, 10);
-        break;
-      case "dark-theme-id":
-        d2Config.darkThemeID = parseInt(stringValue, 10);
-        break;
-      case "sketch":
-        d2Config.sketch = stringValue === "true";
-        break;
-      case "center":
-        d2Config.center = stringValue === "true";
-        break;
-      case "pad":
-        d2Config.pad = parseInt(stringValue, 10);
-        break;
+  const match = info.match(/\{(.*)\}\s*$/);
+  if (match) {
+    // 匹配 key=value、key="value"、key='value' 和 key
+    const attributeRegex = /([\w-]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s}]+))?/g;
+    for (const attribute of match[1].matchAll(attributeRegex)) {
+      attributes.push([attribute[1], stripQuotes(attribute[2] ?? "")]);
     }
   }
+  attributes.push(...(attrs ?? []));
 
-  return d2Config;
+  return attributes;
+}
+
+/**
+ * 将属性名转换为配置块中的参数名，例如 darkTheme 和 dark-theme 都转换为 "--dark-theme"
+ * @param name 属性名
+ * @returns 参数名
+ */
+export function attributeToFlag(name: string): string {
+  return `--${name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+}
+
+/**
+ * 解析代码块的属性
+ * 属性名与配置块中的参数相同（不带 "--"），也可以使用配置的驼峰名称，例如 darkTheme=200。
+ * 没有值的属性视为 true。
+ * @param info 代码块信息字符串
+ * @param attrs markdown-it-attrs 解析出的属性
+ * @returns 属性中的配置
+ */
+export function parseFenceAttributes(info: string, attrs: [string, string][] | null = null): Config {
+  const config: Config = {};
+
+  for (const [name, value] of readFenceAttributes(info, attrs)) {
+    applyConfigOption(config, attributeToFlag(name), value === "" ? "true" : value);
+  }
+
+  return config;
+}
+
+/**
+ * 将 d2-config 中的值转换为配置值
+ * @param option 配置项
+ * @param value d2-config 中的值，嵌套块为 D2Map
+ * @returns 转换后的值，无效的值返回 undefined
+ */
+function convertD2ConfigValue(option: OptionSchema, value: string | D2Map): unknown {
+  if (typeof value === "string") {
+    // 块类型的配置不能书写为字符串
+    return option.type === "object" || option.type === "string-record" ? undefined : parseOptionValue(option, value)?.value;
+  }
+
+  switch (option.type) {
+    case "string-record":
+      // 主题颜色覆盖的值都是字符串，忽略嵌套的块
+      return Object.fromEntries(Object.entries(value).filter(([, item]) => typeof item === "string"));
+    case "object": {
+      if (!option.properties) {
+        return value;
+      }
+      // 有已知属性的块（例如 elk），未知的属性和无效的值会被忽略
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const property = option.properties.find((candidate) => candidate.flag === key);
+        const converted = property ? convertD2ConfigValue(property, item) : undefined;
+        if (converted !== undefined) {
+          result[property!.key] = converted;
+        }
+      }
+      return result;
+    }
+    default:
+      return undefined;
+  }
 }
 
 /**
- * 移除字符串两端的引号
- * @param str 字符串
- * @returns 移除引号后的字符串
+ * 解析 d2-config 内容并返回 D2Config 对象
+ * 支持嵌套的块，例如 theme-overrides、dark-theme-overrides、elk 和 dagre。
+ * @param content d2-config 内容
+ * @returns 解析出的 D2Config 对象
  */
-function stripQuotes(str: string): string {
-  if (str.length < 2) {
-    return str;
+function parseAndConvertD2Config(code: string): D2Config {
+  const d2Config: D2Config = {};
+
+  const content = getD2ConfigContent(code);
+  if (content.length === 0) {
+    return d2Config;
   }
 
-  // 检查是否以单引号或双引号开始和结束
-  if ((str.startsWith('"') && str.endsWith('"')) || (str.startsWith("'") && str.endsWith("'"))) {
-    return str.substring(1, str.length - 1);
+  for (const [key, value] of Object.entries(parseD2Map(content))) {
+    // 根据键映射到 D2Config 接口，未知的键和无效的值会被忽略
+    const option = D2_CONFIG_OPTIONS.find((item) => item.flag === key);
+    const converted = option ? convertD2ConfigValue(option, value) : undefined;
+    if (converted !== undefined) {
+      (d2Config as Record<string, unknown>)[option!.key] = converted;
+    }
   }
 
-  return str;
+  return d2Config;
 }
 
 /**
@@ -227,18 +267,43 @@ export function convertD2ConfigToConfig(d2Config: D2Config): Partial<Config> {
     config.pad = d2Config.pad;
   }
 
+  if (d2Config.themeOverrides != null) {
+    config.themeOverrides = d2Config.themeOverrides;
+  }
+
+  if (d2Config.darkThemeOverrides != null) {
+    config.darkThemeOverrides = d2Config.darkThemeOverrides;
+  }
+
+  // 布局引擎参数，只设置块中出现的参数，以免覆盖其他配置源中的值
+  const layoutOptions: Partial<Config> = {
+    elkAlgorithm: d2Config.elk?.algorithm,
+    elkNodeNodeBetweenLayersSpacing: d2Config.elk?.nodeNodeBetweenLayersSpacing,
+    elkPadding: d2Config.elk?.padding,
+    elkEdgeNodeBetweenLayersSpacing: d2Config.elk?.edgeNodeBetweenLayersSpacing,
+    elkNodeSelfLoop: d2Config.elk?.nodeSelfLoop,
+    dagreNodesep: d2Config.dagre?.nodesep,
+    dagreEdgesep: d2Config.dagre?.edgesep,
+  };
+  for (const [key, value] of Object.entries(layoutOptions)) {
+    if (value != null) {
+      (config as Record<string, unknown>)[key] = value;
+    }
+  }
+
   return config;
 }
 
 /**
  * 解析所有配置源并返回最终配置
- * 优先级：默认配置 -> 普通代码块配置 -> d2-config 配置 -> composition 自动设置
+ * 优先级：默认配置 -> 代码块信息字符串属性 -> 普通代码块配置 -> d2-config 配置 -> composition 自动设置
  * 注意：d2-config 配置优先级最高，但如果没有显式设置 animateInterval 且检测到 composition，则自动设置
  * @param content D2 内容
  * @param defaultConfig 默认配置
+ * @param attributes 代码块属性中的配置，见 parseFenceAttributes
  * @returns 包含最终配置和处理后代码的对象
  */
-export function parseConfig(content: string, defaultConfig: Config): { config: Config; code: string } {
+export function parseConfig(content: string, defaultConfig: Config, attributes: Config = {}): { config: Config; code: string } {
   // 解析位于代码块顶部注释中的 d2 命令参数配置。
   const { config: diagramConfig, code } = parseAndConvertConfig(content);
 
@@ -252,14 +317,20 @@ export function parseConfig(content: string, defaultConfig: Config): { config: C
   const d2FileConvertedConfig = d2FileConfig ? convertD2ConfigToConfig(d2FileConfig) : {};
 
   // 合并配置
-  const mergedConfig = {
-    ...defaultConfig,
-    ...diagramConfig,
-    ...d2FileConvertedConfig,
-  };
+  const sources = [defaultConfig, attributes, diagramConfig, d2FileConvertedConfig];
+  const mergedConfig: Config = Object.assign({}, ...sources);
+
+  // 主题颜色覆盖按颜色合并，例如全站统一的品牌颜色可以在单个图表中覆盖部分颜色
+  for (const key of ["themeOverrides", "darkThemeOverrides"] as const) {
+    const overrides = sources.filter((source) => source[key] != null).map((source) => source[key]);
+    if (overrides.length > 1) {
+      mergedConfig[key] = Object.assign({}, ...overrides);
+    }
+  }
 
   // 如果没有显式设置 --animate-interval 且检测到 composition，则自动设置默认动画间隔为 1200ms
-  if (mergedConfig.animateInterval == null && hasComposition(code)) {
+  // 分别渲染每个图板时不需要动画
+  if (mergedConfig.animateInterval == null && mergedConfig.composition !== "boards" && hasComposition(code)) {
     mergedConfig.animateInterval = 1200;
   }
 
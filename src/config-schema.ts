@@ -0,0 +1,346 @@
+import { Layout, FileType, OutputMode, Backend } from "./config.js";
+
+/**
+ * 配置项的值类型
+ * - boolean、number、integer、string：基本类型
+ * - enum：values 中的一个值
+ * - boolean-or-string：布尔值或字符串，例如 description
+ * - object：对象，可以通过 properties 描述其属性
+ * - string-record：值为字符串的对象，例如 themeOverrides，书写为 "B1=#000000,N1=#ffffff"
+ * - string-array：字符串数组，例如 targets，书写为 "layers.prod,layers.dev"
+ * - string-or-array：字符串或字符串数组，例如 prelude
+ */
+export type OptionType =
+  | "boolean"
+  | "number"
+  | "integer"
+  | "string"
+  | "enum"
+  | "boolean-or-string"
+  | "object"
+  | "string-record"
+  | "string-array"
+  | "string-or-array";
+
+/**
+ * 配置项的描述
+ */
+export interface OptionSchema {
+  /** 配置对象中的属性名，例如 "layout" 或 "layoutEngine" */
+  key: string;
+  /** 代码块中书写的名称，例如配置块中的 "--layout" 或 d2-config 中的 "layout-engine" */
+  flag?: string;
+  /** 值类型 */
+  type: OptionType;
+  /** 枚举类型的可选值，键为书写的值，值为转换后的配置值 */
+  values?: Record<string, unknown>;
+  /** 对象类型的属性 */
+  properties?: OptionSchema[];
+}
+
+/**
+ * 根据枚举生成可选值，书写时可以使用枚举值或枚举键，例如 "elk" 或 "ELK"
+ * @param enumObject 字符串枚举
+ * @returns 可选值
+ */
+function enumValues(enumObject: Record<string, string>): Record<string, unknown> {
+  return Object.fromEntries(Object.values(enumObject).map((value) => [value, value]));
+}
+
+/**
+ * 根据字符串列表生成可选值
+ * @param values 可选值
+ * @returns 可选值
+ */
+function literalValues(...values: string[]): Record<string, unknown> {
+  return Object.fromEntries(values.map((value) => [value, value]));
+}
+
+/**
+ * 插件配置 (Config) 的所有配置项，flag 为代码块配置块中的参数名
+ * 没有 flag 的配置项只能在插件配置中设置。
+ */
+export const CONFIG_OPTIONS: OptionSchema[] = [
+  { key: "onlyConvertMarkedImage", type: "boolean" },
+  { key: "forceAppendix", flag: "--force-appendix", type: "boolean" },
+  { key: "layout", flag: "--layout", type: "enum", values: enumValues(Layout) },
+  { key: "elkAlgorithm", flag: "--elk-algorithm", type: "string" },
+  { key: "elkNodeNodeBetweenLayersSpacing", flag: "--elk-nodeNodeBetweenLayersSpacing", type: "integer" },
+  { key: "elkPadding", flag: "--elk-padding", type: "string" },
+  { key: "elkEdgeNodeBetweenLayersSpacing", flag: "--elk-edgeNodeBetweenLayersSpacing", type: "integer" },
+  { key: "elkNodeSelfLoop", flag: "--elk-nodeSelfLoop", type: "integer" },
+  { key: "dagreNodesep", flag: "--dagre-nodesep", type: "integer" },
+  { key: "dagreEdgesep", flag: "--dagre-edgesep", type: "integer" },
+  { key: "theme", flag: "--theme", type: "integer" },
+  { key: "darkTheme", flag: "--dark-theme", type: "integer" },
+  { key: "darkModeSelector", type: "string" },
+  { key: "themeOverrides", flag: "--theme-overrides", type: "string-record" },
+  { key: "darkThemeOverrides", flag: "--dark-theme-overrides", type: "string-record" },
+  { key: "pad", flag: "--pad", type: "integer" },
+  { key: "animateInterval", flag: "--animate-interval", type: "integer" },
+  { key: "composition", flag: "--composition", type: "enum", values: literalValues("animate", "boards") },
+  { key: "timeout", flag: "--timeout", type: "integer" },
+  { key: "sketch", flag: "--sketch", type: "boolean" },
+  { key: "center", flag: "--center", type: "boolean" },
+  { key: "scale", flag: "--scale", type: "number" },
+  { key: "target", flag: "--target", type: "string" },
+  { key: "targets", flag: "--targets", type: "string-array" },
+  { key: "fontRegular", flag: "--font-regular", type: "string" },
+  { key: "fontItalic", flag: "--font-italic", type: "string" },
+  { key: "fontBold", flag: "--font-bold", type: "string" },
+  { key: "fontSemiBold", flag: "--font-semibold", type: "string" },
+  { key: "salt", flag: "--salt", type: "string" },
+  { key: "omitVersion", flag: "--omit-version", type: "boolean" },
+  { key: "noXmlTag", flag: "--no-xml-tag", type: "boolean" },
+  { key: "stdoutFormat", flag: "--stdout-format", type: "enum", values: enumValues(FileType) },
+  { key: "directory", flag: "--directory", type: "string" },
+  { key: "diagramsRoot", type: "string" },
+  { key: "prelude", type: "string-or-array" },
+  { key: "noPrelude", flag: "--no-prelude", type: "boolean" },
+  { key: "title", flag: "--title", type: "string" },
+  { key: "alt", flag: "--alt", type: "string" },
+  { key: "caption", flag: "--caption", type: "string" },
+  { key: "description", flag: "--description", type: "boolean-or-string" },
+  { key: "width", flag: "--width", type: "string" },
+  { key: "align", flag: "--align", type: "enum", values: literalValues("left", "center", "right") },
+  { key: "className", flag: "--class", type: "string" },
+  { key: "showSource", flag: "--show-source", type: "boolean" },
+  { key: "output", flag: "--output", type: "enum", values: enumValues(OutputMode) },
+  { key: "concurrency", type: "integer" },
+  { key: "onError", type: "enum", values: literalValues("fallback", "panel", "throw") },
+  { key: "strict", type: "boolean" },
+  { key: "reportFile", type: "string" },
+  { key: "backend", type: "enum", values: enumValues(Backend) },
+  { key: "d2Path", type: "string" },
+  { key: "d2Env", type: "string-record" },
+  { key: "d2Cwd", type: "string" },
+  { key: "d2ExtraArgs", type: "string-array" },
+  { key: "minD2Version", type: "string" },
+  {
+    key: "cache",
+    type: "object",
+    properties: [
+      { key: "prune", type: "boolean" },
+      { key: "maxAge", type: "number" },
+      { key: "maxSize", type: "number" },
+    ],
+  },
+];
+
+/**
+ * vars.d2-config 的所有配置项，flag 为 d2-config 中的键
+ * See: https://d2lang.com/tour/vars/#configuration-variables
+ */
+export const D2_CONFIG_OPTIONS: OptionSchema[] = [
+  { key: "layoutEngine", flag: "layout-engine", type: "enum", values: enumValues(Layout) },
+  { key: "themeID", flag: "theme-id", type: "integer" },
+  { key: "darkThemeID", flag: "dark-theme-id", type: "integer" },
+  { key: "sketch", flag: "sketch", type: "boolean" },
+  { key: "center", flag: "center", type: "boolean" },
+  { key: "pad", flag: "pad", type: "integer" },
+  { key: "themeOverrides", flag: "theme-overrides", type: "string-record" },
+  { key: "darkThemeOverrides", flag: "dark-theme-overrides", type: "string-record" },
+  { key: "data", flag: "data", type: "object" },
+  {
+    key: "elk",
+    flag: "elk",
+    type: "object",
+    properties: [
+      { key: "algorithm", flag: "algorithm", type: "string" },
+      { key: "nodeNodeBetweenLayersSpacing", flag: "nodeNodeBetweenLayersSpacing", type: "integer" },
+      { key: "padding", flag: "padding", type: "string" },
+      { key: "edgeNodeBetweenLayersSpacing", flag: "edgeNodeBetweenLayersSpacing", type: "integer" },
+      { key: "nodeSelfLoop", flag: "nodeSelfLoop", type: "integer" },
+    ],
+  },
+  {
+    key: "dagre",
+    flag: "dagre",
+    type: "object",
+    properties: [
+      { key: "nodesep", flag: "nodesep", type: "integer" },
+      { key: "edgesep", flag: "edgesep", type: "integer" },
+    ],
+  },
+];
+
+/**
+ * 移除字符串两端的引号
+ * @param str 字符串
+ * @returns 移除引号后的字符串
+ */
+export function stripQuotes(str: string): string {
+  if (str.length < 2) {
+    return str;
+  }
+
+  // 检查是否以单引号或双引号开始和结束
+  if ((str.startsWith('"') && str.endsWith('"')) || (str.startsWith("'") && str.endsWith("'"))) {
+    return str.substring(1, str.length - 1);
+  }
+
+  return str;
+}
+
+/**
+ * 描述配置项期望的值，用于错误信息
+ * @param option 配置项
+ * @returns 期望值的描述，例如 'one of "dagre", "elk", "tala"'
+ */
+export function describeExpectedValue(option: OptionSchema): string {
+  switch (option.type) {
+    case "boolean":
+      return "true or false";
+    case "number":
+      return "a number";
+    case "integer":
+      return "an integer";
+    case "string":
+      return "a string";
+    case "enum":
+      return `one of ${Object.keys(option.values ?? {})
+        .map((value) => `"${value}"`)
+        .join(", ")}`;
+    case "boolean-or-string":
+      return "true, false or a string";
+    case "object":
+      return "an object";
+    case "string-record":
+      return 'an object with string values, written as "B1=#000000,N1=#ffffff"';
+    case "string-array":
+      return 'a list of strings, written as "a,b"';
+    case "string-or-array":
+      return "a string or an array of strings";
+  }
+}
+
+/**
+ * 将代码块中书写的字符串值转换为配置值
+ * @param option 配置项
+ * @param rawValue 书写的值，两端的引号会被移除
+ * @returns 转换后的值；值无效或该类型不能书写为字符串时返回 null
+ */
+export function parseOptionValue(option: OptionSchema, rawValue: string): { value: unknown } | null {
+  const value = stripQuotes(rawValue.trim());
+
+  switch (option.type) {
+    case "boolean":
+      return value === "true" ? { value: true } : value === "false" ? { value: false } : null;
+    case "integer":
+      return /^-?\d+$/.test(value) ? { value: parseInt(value, 10) } : null;
+    case "number":
+      return value !== "" && Number.isFinite(Number(value)) ? { value: Number(value) } : null;
+    case "string":
+      return { value };
+    case "enum": {
+      // 不区分大小写，并接受枚举键，例如 "ELK" 或 "BASE64_SVG"
+      const values = option.values ?? {};
+      const match = Object.keys(values).find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+      return match != null ? { value: values[match] } : null;
+    }
+    case "boolean-or-string":
+      return { value: value === "true" ? true : value === "false" ? false : value };
+    case "string-record": {
+      // 逗号或空格分隔的 key=value，例如 "B1=#000000,N1=#ffffff"
+      const entries = value.split(/[,\s]+/).filter(Boolean).map((entry) => entry.split("="));
+      if (entries.length === 0 || entries.some((entry) => entry.length !== 2 || !entry[0] || !entry[1])) {
+        return null;
+      }
+      return { value: Object.fromEntries(entries) };
+    }
+    case "string-array":
+      // 逗号分隔，保留空字符串，例如 targets 中的 ",layers.x"（空字符串为根图板）
+      return value === "" ? null : { value: value.split(",").map((item) => item.trim()) };
+    default:
+      return null;
+  }
+}
+
+/**
+ * 检查插件配置中的值是否符合配置项的类型
+ * @param option 配置项
+ * @param value 配置值
+ * @returns 值有效或未设置时返回 true
+ */
+export function isValidOptionValue(option: OptionSchema, value: unknown): boolean {
+  if (value == null) {
+    return true;
+  }
+
+  let valid: boolean;
+  switch (option.type) {
+    case "boolean":
+      valid = typeof value === "boolean";
+      break;
+    case "number":
+      valid = typeof value === "number" && Number.isFinite(value);
+      break;
+    case "integer":
+      valid = Number.isInteger(value);
+      break;
+    case "string":
+      valid = typeof value === "string";
+      break;
+    case "enum":
+      valid = Object.values(option.values ?? {}).includes(value);
+      break;
+    case "boolean-or-string":
+      valid = typeof value === "boolean" || typeof value === "string";
+      break;
+    case "object":
+      valid = typeof value === "object" && !Array.isArray(value);
+      break;
+    case "string-record":
+      valid = typeof value === "object" && !Array.isArray(value) && Object.values(value as object).every((item) => typeof item === "string");
+      break;
+    case "string-array":
+      valid = Array.isArray(value) && value.every((item) => typeof item === "string");
+      break;
+    case "string-or-array":
+      valid = typeof value === "string" || (Array.isArray(value) && value.every((item) => typeof item === "string"));
+      break;
+  }
+
+  return valid;
+}
+
+/**
+ * 计算两个字符串的编辑距离
+ * @param a 字符串 a
+ * @param b 字符串 b
+ * @returns 编辑距离
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 查找与输入最相似的名称，用于 "did you mean" 提示
+ * @param name 输入的名称
+ * @param candidates 可选的名称
+ * @returns 最相似的名称，没有足够相似的名称时返回 undefined
+ */
+export function findSimilarName(name: string, candidates: string[]): string | undefined {
+  const normalized = name.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 3)) + 1;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(normalized, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
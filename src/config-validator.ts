@@ -0,0 +1,235 @@
+import { attributeToFlag, findConfigOption, readConfigFlags, readFenceAttributes } from "./config-parser.js";
+import {
+  CONFIG_OPTIONS,
+  D2_CONFIG_OPTIONS,
+  OptionSchema,
+  describeExpectedValue,
+  findSimilarName,
+  isValidOptionValue,
+  parseOptionValue,
+  stripQuotes,
+} from "./config-schema.js";
+import { Config } from "./config.js";
+import { findBoards, findD2ConfigBlock, removeCommentFromLine, removeCommentsFromD2, resolveTargets } from "./d2-helper.js";
+
+/**
+ * 代码块配置中的一个问题
+ */
+export interface ConfigDiagnostic {
+  /** 问题描述 */
+  message: string;
+  /** 问题所在行相对于代码块开始行 (```) 的偏移：0 为代码块开始行（属性），1 为代码内容的第一行 */
+  line: number;
+}
+
+// 配置块中可用的参数名
+const CONFIG_FLAGS = CONFIG_OPTIONS.flatMap((option) => (option.flag ? [option.flag] : []));
+
+/**
+ * 生成未知名称的错误信息，包含 "did you mean" 提示
+ * @param kind 名称的类型，例如 "config flag"
+ * @param name 未知的名称
+ * @param candidates 可选的名称
+ * @returns 错误信息
+ */
+function unknownNameMessage(kind: string, name: string, candidates: string[]): string {
+  const suggestion = findSimilarName(name, candidates);
+  return `Unknown ${kind} "${name}"${suggestion ? `, did you mean "${suggestion}"?` : ""}`;
+}
+
+/**
+ * 生成无效值的错误信息
+ * @param value 配置值
+ * @param name 配置项名称，例如 "--theme" 或 d2-config "sketch"
+ * @param option 配置项
+ * @returns 错误信息
+ */
+function invalidValueMessage(value: string, name: string, option: OptionSchema): string {
+  return `Invalid value ${value} for ${name}, expected ${describeExpectedValue(option)}`;
+}
+
+/**
+ * 检查代码块中的字符串配置值
+ * @param option 配置项
+ * @param name 配置项名称，用于错误信息
+ * @param value 书写的值
+ * @returns 错误信息，值有效时返回 null
+ */
+function checkWrittenValue(option: OptionSchema, name: string, value: string): string | null {
+  if (parseOptionValue(option, value)) {
+    return null;
+  }
+  return invalidValueMessage(`"${stripQuotes(value.trim())}"`, name, option);
+}
+
+/**
+ * 检查 vars.d2-config 中的配置，包括 elk 和 dagre 等嵌套块中的参数
+ * @param content 代码内容
+ * @returns 配置中的问题，行号为代码内容中的行号（从 1 开始）
+ */
+function validateD2Config(content: string): ConfigDiagnostic[] {
+  const block = findD2ConfigBlock(content);
+  if (!block) {
+    return [];
+  }
+
+  const diagnostics: ConfigDiagnostic[] = [];
+  const firstLine = content.slice(0, block.start).split("\n").length;
+  // 当前所在的块：可用的配置项和键路径；配置项为 null 时不检查块中的内容，例如 theme-overrides 和 data
+  const stack: { options: OptionSchema[] | null; path: string }[] = [{ options: D2_CONFIG_OPTIONS, path: "" }];
+
+  block.content.split("\n").forEach((rawLine, index) => {
+    const line = removeCommentFromLine(rawLine).trim();
+    const lineNumber = firstLine + index;
+    const current = stack[stack.length - 1];
+    const opens = (line.match(/\{/g) ?? []).length;
+    const closes = (line.match(/\}/g) ?? []).length;
+
+    // 空行、块的结束和不检查的块中的内容
+    if (!line || /^\}+$/.test(line) || current.options === null) {
+      for (let i = 0; i < opens; i++) {
+        stack.push({ options: null, path: current.path });
+      }
+      stack.splice(Math.max(1, stack.length - closes));
+      return;
+    }
+
+    const match = line.match(/^([^:]+?)\s*:\s*(.*)$/);
+    if (!match) {
+      diagnostics.push({ message: `Malformed d2-config line "${line}", expected "key: value"`, line: lineNumber });
+      return;
+    }
+
+    const [, key, value] = match;
+    const name = `${current.path}${key}`;
+    const option = current.options.find((item) => item.flag === key);
+    const isBlock = value.startsWith("{");
+
+    // 进入跨行的块
+    if (opens > closes) {
+      stack.push({ options: option?.properties ?? null, path: `${name}.` });
+    }
+
+    if (!option) {
+      const keys = current.options.map((item) => item.flag!);
+      diagnostics.push({ message: unknownNameMessage("d2-config key", name, keys.map((item) => `${current.path}${item}`)), line: lineNumber });
+      return;
+    }
+
+    const blockType = option.type === "object" || option.type === "string-record";
+    if (blockType && !isBlock) {
+      diagnostics.push({ message: `Invalid value "${value}" for d2-config "${name}", expected a block`, line: lineNumber });
+      return;
+    }
+    if (!blockType && isBlock) {
+      diagnostics.push({ message: invalidValueMessage("block", `d2-config "${name}"`, option), line: lineNumber });
+      return;
+    }
+
+    const error = blockType ? null : checkWrittenValue(option, `d2-config "${name}"`, value);
+    if (error) {
+      diagnostics.push({ message: error, line: lineNumber });
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * 检查代码块的配置：信息字符串中的属性、顶部的配置块和 vars.d2-config
+ * 报告未知的名称（包含 "did you mean" 提示）、无效的值和格式错误的行。
+ * @param content 代码内容（可能来自代码片段文件）
+ * @param info 代码块信息字符串
+ * @param attrs markdown-it-attrs 解析出的属性
+ * @returns 配置中的问题
+ */
+export function validateDiagramConfig(content: string, info: string = "", attrs: [string, string][] | null = null): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+
+  // 信息字符串中的属性，忽略 VitePress 的行高亮，例如 {1,3-5}
+  for (const [name, value] of readFenceAttributes(info, attrs)) {
+    if (/^\d/.test(name)) {
+      continue;
+    }
+    const flag = attributeToFlag(name);
+    const option = findConfigOption(flag);
+    if (!option) {
+      const candidates = CONFIG_FLAGS.map((item) => item.slice(2));
+      diagnostics.push({ message: unknownNameMessage("attribute", name, candidates), line: 0 });
+      continue;
+    }
+    const error = checkWrittenValue(option, `attribute "${name}"`, value === "" ? "true" : value);
+    if (error) {
+      diagnostics.push({ message: error, line: 0 });
+    }
+  }
+
+  // 配置块中的参数
+  const { flags } = readConfigFlags(content);
+  for (const { key, value, line } of flags) {
+    const option = findConfigOption(key);
+    if (!option) {
+      diagnostics.push({ message: unknownNameMessage("config flag", key, CONFIG_FLAGS), line });
+      continue;
+    }
+    const error = checkWrittenValue(option, `"${key}"`, value);
+    if (error) {
+      diagnostics.push({ message: error, line });
+    }
+  }
+
+  diagnostics.push(...validateD2Config(content));
+  return diagnostics;
+}
+
+/**
+ * 检查插件配置对象，报告未知的配置项（包含 "did you mean" 提示）和类型错误的值
+ * @param options 插件配置对象
+ * @param schema 配置项，默认为插件配置 (Config) 的所有配置项
+ * @param prefix 嵌套配置项的前缀，例如 "cache."
+ * @returns 配置中的问题
+ */
+export function validatePluginOptions(
+  options: Record<string, unknown>,
+  schema: OptionSchema[] = CONFIG_OPTIONS,
+  prefix: string = "",
+): string[] {
+  const messages: string[] = [];
+  const keys = schema.map((option) => option.key);
+
+  for (const [key, value] of Object.entries(options)) {
+    const option = schema.find((item) => item.key === key);
+    if (!option) {
+      const suggestion = findSimilarName(key, keys);
+      messages.push(`Unknown option "${prefix}${key}"${suggestion ? `, did you mean "${prefix}${suggestion}"?` : ""}`);
+      continue;
+    }
+
+    if (!isValidOptionValue(option, value)) {
+      messages.push(invalidValueMessage(JSON.stringify(value), `option "${prefix}${key}"`, option));
+    } else if (option.properties && value != null) {
+      messages.push(...validatePluginOptions(value as Record<string, unknown>, option.properties, `${prefix}${key}.`));
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * 检查 targets 中的图板是否存在于代码中，空字符串表示根图板，以 * 结尾的路径包括子图板
+ * @param code D2 代码（不含配置块）
+ * @param config 解析后的配置
+ * @returns 不存在的图板
+ */
+export function validateTargets(code: string, config: Config): ConfigDiagnostic[] {
+  if (!config.targets) {
+    return [];
+  }
+
+  const cleanedCode = removeCommentsFromD2(code);
+  const boards = findBoards(cleanedCode).map((board) => board.target);
+  return resolveTargets(config.targets, cleanedCode).unknown.map((target) => ({
+    message: unknownNameMessage("target", target, boards),
+    line: 0,
+  }));
+}
@@ -91,6 +91,28 @@ export enum FileType {
   GIF = "gif",
 }
 
+/**
+ * Enum defining how rendered diagrams are included in pages.
+ */
+export enum OutputMode {
+  /** Inline SVG markup, or base64 data URIs for other file types, directly into the page HTML. */
+  INLINE = "inline",
+
+  /** Emit diagrams as static assets with content-hashed filenames, referenced via `<object>` for SVG and `<img>` for other file types. Requires the companion Vite plugin. */
+  ASSET = "asset",
+}
+
+/**
+ * Enum defining how diagrams are rendered.
+ */
+export enum Backend {
+  /** Run the d2 executable for every diagram. Supports every file type and option. */
+  CLI = "cli",
+
+  /** Render in process with the d2 JS/WASM build from the optional @terrastruct/d2 package, without a d2 installation. SVG only, and requires the companion Vite plugin. */
+  WASM = "wasm",
+}
+
 // See: https://github.com/terrastruct/d2/blob/master/d2target/d2target.go#L44
 //      https://d2lang.com/tour/vars/#configuration-variables
 // vars: {
@@ -101,6 +123,12 @@ export enum FileType {
 //     sketch: true
 //     center: true
 //     pad: 0
+//     theme-overrides: {
+//       B1: "#2E7D32"
+//     }
+//     elk: {
+//       algorithm: radial
+//     }
 //   }
 // }
 export interface D2Config {
@@ -110,15 +138,40 @@ export interface D2Config {
   sketch?: boolean;
   center?: boolean;
   pad?: number;
-
-  // 忽略以下属性
   themeOverrides?: Record<string, string>;
-  darkThemeOverrides?: Record<string, any>;
+  darkThemeOverrides?: Record<string, string>;
   /**
    * Data is a data structure for holding user-defined data
    * useful for plugins that allow users to configure within source code
    */
   data?: Record<string, any>;
+
+  // 以下属性不属于 d2 的 d2-config，由插件转换为 --elk-* 和 --dagre-* 参数
+  elk?: {
+    algorithm?: string;
+    nodeNodeBetweenLayersSpacing?: number;
+    padding?: string;
+    edgeNodeBetweenLayersSpacing?: number;
+    nodeSelfLoop?: number;
+  };
+  dagre?: {
+    nodesep?: number;
+    edgesep?: number;
+  };
+}
+
+/**
+ * Interface defining the diagram cache policy.
+ */
+export interface CacheConfig {
+  /** Delete diagrams in the output directory that no page referenced at the end of a build. (default true) */
+  prune?: boolean | undefined;
+
+  /** When set, unreferenced diagrams are only pruned once they have been unused for longer than this many milliseconds. (default null) */
+  maxAge?: number | undefined;
+
+  /** When set, unreferenced diagrams are only pruned, least recently used first, while the output directory is larger than this many bytes. (default null) */
+  maxSize?: number | undefined;
 }
 
 /**
@@ -142,18 +195,51 @@ export interface Config {
   /** The layout engine used (default "dagre") */
   layout?: Layout | undefined;
 
+  /** Layout algorithm used by ELK, e.g. "layered", "mrtree" or "radial". (default "layered") */
+  elkAlgorithm?: string | undefined;
+
+  /** The vertical spacing between nodes in pixels, used by ELK. (default 70) */
+  elkNodeNodeBetweenLayersSpacing?: number | undefined;
+
+  /** The padding around nodes, used by ELK. (default "[top=50,left=50,bottom=50,right=50]") */
+  elkPadding?: string | undefined;
+
+  /** The vertical spacing between edges and nodes in pixels, used by ELK. (default 40) */
+  elkEdgeNodeBetweenLayersSpacing?: number | undefined;
+
+  /** The spacing of self loops in pixels, used by ELK. (default 50) */
+  elkNodeSelfLoop?: number | undefined;
+
+  /** Number of pixels that separate nodes horizontally, used by dagre. (default 60) */
+  dagreNodesep?: number | undefined;
+
+  /** Number of pixels that separate edges horizontally, used by dagre. (default 20) */
+  dagreEdgesep?: number | undefined;
+
   /** The diagram theme ID (default NEUTRAL_DEFAULT) */
   theme?: Theme | undefined;
 
   /** The theme to use when the viewer's browser is in dark mode. When left unset theme config is used for both light and dark mode. Be aware that explicit styles set in D2 code will still be applied and this may produce unexpected results. (default null) */
   darkTheme?: Theme | undefined;
 
+  /** CSS selector matching the page root in dark mode. Diagrams with a darkTheme follow it instead of the browser's prefers-color-scheme; PNG, GIF and asset output render a light and a dark image swapped via CSS. Set to an empty string to follow prefers-color-scheme. (default "html.dark") */
+  darkModeSelector?: string | undefined;
+
+  /** Theme color overrides, e.g. { B1: "#2E7D32", N1: "#1B1B1B" }. Applied as `vars.d2-config.theme-overrides`, set with `--theme-overrides=B1=#2E7D32,N1=#1B1B1B` in the config block. (default null) */
+  themeOverrides?: Record<string, string> | undefined;
+
+  /** Theme color overrides for the dark theme, applied as `vars.d2-config.dark-theme-overrides`. (default null) */
+  darkThemeOverrides?: Record<string, string> | undefined;
+
   /** Pixels padded around the rendered diagram (default 100) */
   pad?: number | undefined;
 
   /** If given, multiple boards are packaged as 1 SVG which transitions through each board at the interval (in milliseconds). Can only be used with SVG exports. (default 0) */
   animateInterval?: number | undefined;
 
+  /** How diagrams with layers, scenarios or steps are shown: "animate" renders one SVG that transitions through the boards, "boards" renders each board separately with tabs, previous/next buttons and a URL hash per board (requires enableD2Boards() from the client module). (default "animate") */
+  composition?: "animate" | "boards" | undefined;
+
   /** The maximum number of seconds that D2 runs for before timing out and exiting. When rendering a large diagram, it is recommended to increase this value (default 120) */
   timeout?: number | undefined;
 
@@ -169,9 +255,102 @@ export interface Config {
   /** Target board to render. Pass an empty string to target root board. If target ends with '*', it will be rendered with all of its scenarios, steps, and layers. Otherwise, only the target board will be rendered. E.g. '' to render root board only or 'layers.x.*' to render layer 'x' with all of its children. (default "*") */
   target?: string | undefined;
 
+  /** Path to a .ttf file to use for the regular font. Relative paths are resolved against d2Cwd. (default null, the Source Sans Pro font) */
+  fontRegular?: string | undefined;
+
+  /** Path to a .ttf file to use for the italic font. (default null) */
+  fontItalic?: string | undefined;
+
+  /** Path to a .ttf file to use for the bold font. (default null) */
+  fontBold?: string | undefined;
+
+  /** Path to a .ttf file to use for the semibold font. (default null) */
+  fontSemiBold?: string | undefined;
+
+  /** Salt added to the IDs in the SVG, so multiple diagrams on one page do not share CSS and IDs. (default null) */
+  salt?: string | undefined;
+
+  /** Omit the d2 version from the SVG metadata. (default false) */
+  omitVersion?: boolean | undefined;
+
+  /** Omit the XML declaration from SVG output. (default true for SVG) */
+  noXmlTag?: boolean | undefined;
+
+  /** Boards to render side by side from one diagram, rendered in one d2 run and cached separately, e.g. ["layers.prod", "layers.dev"]. Set with `targets="layers.prod,layers.dev"` in the info string. With composition "boards" they are shown as tabs instead. (default null) */
+  targets?: string[] | undefined;
+
   /** File type to export diagram images as, either SVG, BASE64_SVG, PNG or GIF. (default SVG) */
   stdoutFormat?: FileType | undefined;
 
   /** Directory to export temporary diagram files and images to. (default d2-diagrams) */
   directory?: string | undefined;
+
+  /** Directory that `@[d2](path)` includes are resolved against, unless the path starts with `./` or `../`, resolved against d2Cwd. (default the page's directory) */
+  diagramsRoot?: string | undefined;
+
+  /** Shared D2 code prepended to every diagram, such as `classes` and `vars` blocks. Each entry is either a path to a `.d2` file, resolved against d2Cwd, or inline D2 code. (default null) */
+  prelude?: string | string[] | undefined;
+
+  /** Render this diagram without the prelude, set with `--no-prelude` in the config block or the `no-prelude` attribute. (default false) */
+  noPrelude?: boolean | undefined;
+
+  /** Title of the diagram, shown as a tooltip. (default null) */
+  title?: string | undefined;
+
+  /** Alternative text describing the diagram, used as the image alt text and the SVG aria-label. (default the caption, title or "D2 Diagram") */
+  alt?: string | undefined;
+
+  /** Caption shown below the diagram in a `<figcaption>`. (default null) */
+  caption?: string | undefined;
+
+  /** Text description of the diagram for screen readers. By default a list of the shapes and connections is generated from the D2 source; set to false to omit it. (default true) */
+  description?: string | boolean | undefined;
+
+  /** Width of the diagram, in pixels or any CSS length, e.g. "600" or "50%". (default null) */
+  width?: string | undefined;
+
+  /** Horizontal alignment of the diagram, either "left", "center" or "right". (default null) */
+  align?: "left" | "center" | "right" | undefined;
+
+  /** Extra CSS classes added to the diagram container, set with `class` in the info string or `--class` in the config block. (default null) */
+  className?: string | undefined;
+
+  /** Show "Diagram" and "Source" tabs so readers can switch between the rendered diagram and the highlighted D2 source. (default false) */
+  showSource?: boolean | undefined;
+
+  /** How rendered diagrams are included in pages, either INLINE or ASSET. (default INLINE) */
+  output?: OutputMode | undefined;
+
+  /** Maximum number of d2 processes rendering concurrently when the companion Vite plugin is enabled. (default number of CPU cores) */
+  concurrency?: number | undefined;
+
+  /** What to do when a diagram fails to render: "fallback" shows the original code block, "panel" shows an error panel with the d2 error and the offending source lines, "throw" fails the build. (default "fallback") */
+  onError?: "fallback" | "panel" | "throw" | undefined;
+
+  /** Collect every diagram that fails to render during a build and fail the build at the end with a report of all of them. (default false) */
+  strict?: boolean | undefined;
+
+  /** Path of a JSON report file listing every diagram that failed to render (page, line, d2 error and config), written at the end of the build. (default null) */
+  reportFile?: string | undefined;
+
+  /** Rendering backend, either CLI or WASM. Both write the same files into the same cache, so diagrams rendered by one are reused by the other when the d2 versions match. (default CLI) */
+  backend?: Backend | undefined;
+
+  /** Path to the d2 executable, e.g. "node_modules/.bin/d2". (default "d2" from PATH) */
+  d2Path?: string | undefined;
+
+  /** Extra environment variables passed to d2, e.g. { D2_LAYOUT: "elk", TALA_LICENSE: "..." }. (default null) */
+  d2Env?: Record<string, string> | undefined;
+
+  /** Working directory d2 runs in. When set, D2 imports are resolved against it instead of the markdown page or snippet file. (default the page or snippet file's directory, or the current working directory) */
+  d2Cwd?: string | undefined;
+
+  /** Extra raw command line arguments appended to every d2 invocation, e.g. ["--bundle=false"]. (default null) */
+  d2ExtraArgs?: string[] | undefined;
+
+  /** Minimum d2 version required, e.g. "0.6.5". When set, the plugin fails at startup if d2 is missing or older. (default null) */
+  minD2Version?: string | undefined;
+
+  /** Cache manifest and pruning policy for the output directory. */
+  cache?: CacheConfig | undefined;
 }
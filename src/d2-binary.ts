@@ -0,0 +1,132 @@
+import { spawnSync } from "child_process";
+import path from "path";
+import { Config } from "./config.js";
+
+/**
+ * 运行 d2 所需的可执行文件、环境变量和工作目录
+ */
+export interface D2Executable {
+  /** 可执行文件路径 */
+  command: string;
+  /** 环境变量 */
+  env: NodeJS.ProcessEnv;
+  /** 工作目录 */
+  cwd: string;
+}
+
+/**
+ * 根据配置解析运行 d2 的方式
+ * @param config 配置对象
+ * @returns d2 可执行文件、环境变量和工作目录
+ */
+export function resolveD2Executable(config: Config): D2Executable {
+  // 包含路径分隔符的相对路径按当前目录解析，而不是 d2Cwd，其余按 PATH 查找
+  let command = config.d2Path ?? "d2";
+  if (/[\\/]/.test(command)) {
+    command = path.resolve(command);
+  }
+
+  return {
+    command,
+    env: config.d2Env ? { ...process.env, ...config.d2Env } : process.env,
+    cwd: path.resolve(config.d2Cwd ?? "."),
+  };
+}
+
+// 已检测到的 d2 版本，每个可执行文件只检测一次
+const detectedVersions = new Map<string, string | null>();
+
+/**
+ * 获取已安装的 d2 版本（d2 --version）
+ * @param config 配置对象
+ * @returns d2 版本字符串，例如 "v0.6.8"；d2 不可用时返回 null
+ */
+export function getD2Version(config: Config = {}): string | null {
+  const { command, env, cwd } = resolveD2Executable(config);
+  const cacheKey = `${command} ${cwd} ${JSON.stringify(config.d2Env ?? {})}`;
+  if (detectedVersions.has(cacheKey)) {
+    return detectedVersions.get(cacheKey)!;
+  }
+
+  const result = spawnSync(command, ["--version"], {
+    encoding: "utf-8",
+    stdio: "pipe",
+    env,
+    cwd,
+  });
+  const version = result.status === 0 ? result.stdout.trim() : null;
+  detectedVersions.set(cacheKey, version);
+
+  return version;
+}
+
+/**
+ * 检查 d2 可执行文件是否可以运行
+ * 显式配置了 d2Path 时不可运行则抛出错误，否则仅输出警告以保留回退为原始代码块的行为。
+ * @param config 配置对象
+ */
+export function validateD2Executable(config: Config) {
+  if (getD2Version(config) != null) {
+    return;
+  }
+
+  const { command } = resolveD2Executable(config);
+  if (config.d2Path) {
+    throw new Error(`The configured d2Path "${command}" could not be run. Check that it points to a d2 executable.`);
+  }
+  console.warn(`The d2 command could not be run, D2 code blocks will not be rendered. See https://d2lang.com/tour/install to install it.`);
+}
+
+/**
+ * 将版本字符串解析为数字数组
+ * @param version 版本字符串，例如 "v0.6.8" 或 "0.6.8-HEAD"
+ * @returns 主版本号、次版本号和修订号，无法解析时返回 null
+ */
+function parseVersion(version: string): number[] | null {
+  const match = version.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+  if (!match) {
+    return null;
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+}
+
+/**
+ * 比较两个版本号
+ * @param a 版本号 a
+ * @param b 版本号 b
+ * @returns a < b 时返回负数，a > b 时返回正数，相等时返回 0
+ */
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * 检查已安装的 d2 是否满足最低版本要求，不满足时抛出错误
+ * @param minVersion 最低 d2 版本，例如 "0.6.5"
+ * @param config 配置对象
+ */
+export function assertD2Version(minVersion: string, config: Config = {}) {
+  const required = parseVersion(minVersion);
+  if (!required) {
+    throw new Error(`Invalid minD2Version "${minVersion}", expected a version such as "0.6.5".`);
+  }
+
+  const version = getD2Version(config);
+  if (version == null) {
+    throw new Error(
+      `D2 ${minVersion} or newer is required but the d2 command could not be run. See https://d2lang.com/tour/install to install it.`,
+    );
+  }
+
+  const installed = parseVersion(version);
+  if (!installed || compareVersions(installed, required) < 0) {
+    throw new Error(
+      `D2 ${minVersion} or newer is required but ${version} is installed. See https://d2lang.com/tour/install to upgrade it.`,
+    );
+  }
+}
@@ -1,3 +1,7 @@
+import fs from "fs";
+import path from "path";
+import { stripQuotes } from "./config-schema.js";
+
 /**
  * 安全地去除 D2 代码中的所有注释
  * D2 注释语法：
@@ -193,7 +197,7 @@ export function removeCommentsFromD2(code: string): string {
  * @param line 行内容
  * @returns 移除注释后的行内容
  */
-function removeCommentFromLine(line: string): string {
+export function removeCommentFromLine(line: string): string {
   let result = "";
   let inSingleQuote = false;
   let inDoubleQuote = false;
@@ -256,22 +260,21 @@ function findBlockBounds(code: string, startIndex: number): { start: number; end
 }
 
 /**
- * 从 D2 代码解析 vars.d2-config 配置的函数。
- * 获取 D2 代码中的 vars: { d2-config: { ... } } 部分。
+ * 查找 D2 代码中的 vars: { d2-config: { ... } } 块
  * @param code D2 图表代码。
- * @returns D2 配置代码。
+ * @returns d2-config 块的内容及其在代码中的开始位置，不存在时返回 null。
  */
-export function getD2ConfigContent(code: string): string {
+export function findD2ConfigBlock(code: string): { content: string; start: number } | null {
   // 首先查找 vars 部分的开始
   const varsStart = code.indexOf("vars:");
   if (varsStart === -1) {
-    return "";
+    return null;
   }
 
   // 找到 vars 块的开始和结束位置
   const { start: varsBlockStart, end: varsBlockEnd } = findBlockBounds(code, varsStart);
   if (varsBlockStart === -1 || varsBlockEnd === -1) {
-    return "";
+    return null;
   }
 
   // 提取 vars 块的内容
@@ -280,19 +283,128 @@ export function getD2ConfigContent(code: string): string {
   // 在 vars 内容中查找 d2-config 部分
   const d2ConfigStart = varsContent.indexOf("d2-config:");
   if (d2ConfigStart === -1) {
-    return "";
+    return null;
   }
 
   // 找到 d2-config 块的开始和结束位置
   const { start: d2ConfigBlockStart, end: d2ConfigBlockEnd } = findBlockBounds(varsContent, d2ConfigStart);
   if (d2ConfigBlockStart === -1 || d2ConfigBlockEnd === -1) {
-    return "";
+    return null;
   }
 
-  // 提取 d2-config 块的内容并解析
-  const d2ConfigContent = varsContent.substring(d2ConfigBlockStart, d2ConfigBlockEnd);
+  return {
+    content: varsContent.substring(d2ConfigBlockStart, d2ConfigBlockEnd),
+    start: varsBlockStart + d2ConfigBlockStart,
+  };
+}
+
+/**
+ * 从 D2 代码解析 vars.d2-config 配置的函数。
+ * 获取 D2 代码中的 vars: { d2-config: { ... } } 部分。
+ * @param code D2 图表代码。
+ * @returns D2 配置代码。
+ */
+export function getD2ConfigContent(code: string): string {
+  return findD2ConfigBlock(code)?.content ?? "";
+}
+
+/**
+ * D2 map 的内容，值为字符串或嵌套的 map
+ */
+export interface D2Map {
+  [key: string]: string | D2Map;
+}
+
+/**
+ * 解析 D2 map 的内容，例如 d2-config 块，支持嵌套的块
+ * 语句以换行或 ";" 分隔，忽略引号中的花括号和分隔符；值两端的引号会被移除。
+ * @param content D2 无注释 map 内容（不含外层花括号）
+ * @returns 解析出的 map，格式错误的语句会被忽略
+ */
+export function parseD2Map(content: string): D2Map {
+  const map: D2Map = {};
+  let statement = "";
+  let quote: string | null = null;
+  let depth = 0;
+  let blockStart = -1;
+  let blockKey = "";
+
+  // 结束一个 key: value 语句
+  const endStatement = () => {
+    const separator = statement.indexOf(":");
+    if (separator > 0) {
+      const key = stripQuotes(statement.slice(0, separator).trim());
+      map[key] = stripQuotes(statement.slice(separator + 1).trim());
+    }
+    statement = "";
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quote) {
+      if (char === quote && content[i - 1] !== "\\") {
+        quote = null;
+      }
+      if (depth === 0) {
+        statement += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      if (depth === 0) {
+        statement += char;
+      }
+    } else if (char === "{") {
+      if (depth === 0) {
+        blockStart = i + 1;
+        blockKey = stripQuotes(statement.trim().replace(/:$/, "").trim());
+      }
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0 && blockStart !== -1) {
+        if (blockKey) {
+          map[blockKey] = parseD2Map(content.substring(blockStart, i));
+        }
+        blockStart = -1;
+        statement = "";
+      }
+    } else if (depth === 0) {
+      if (char === "\n" || char === ";") {
+        endStatement();
+      } else {
+        statement += char;
+      }
+    }
+  }
+  endStatement();
 
-  return d2ConfigContent;
+  return map;
+}
+
+/**
+ * 在 D2 代码末尾添加 vars.d2-config 块
+ * 添加在末尾不会改变 d2 错误信息中的行号；D2 会合并重复声明的 vars，末尾的值优先。
+ * @param code D2 代码
+ * @param d2Config d2-config 中的块，例如 { "theme-overrides": { B1: "#000000" } }
+ * @returns 添加 d2-config 后的代码，没有需要添加的配置时返回原代码
+ */
+export function appendD2ConfigVars(code: string, d2Config: Record<string, Record<string, string> | undefined>): string {
+  const blocks = Object.entries(d2Config)
+    .filter(([, values]) => values != null && Object.keys(values).length > 0)
+    .map(([key, values]) => {
+      // 颜色值以 # 开头，需要加引号以免被解析为注释
+      const lines = Object.entries(values!).map(([name, value]) => `      ${name}: ${JSON.stringify(value)}`);
+      return `    ${key}: {\n${lines.join("\n")}\n    }`;
+    });
+
+  if (blocks.length === 0) {
+    return code;
+  }
+  return `${code}\n\nvars: {\n  d2-config: {\n${blocks.join("\n")}\n  }\n}\n`;
 }
 
 /**
@@ -307,3 +419,376 @@ export function hasComposition(code: string): boolean {
   const regex = /\b(layers|scenarios|steps)\s*:\s*\{/i;
   return regex.test(code);
 }
+
+/**
+ * D2 代码中的一个顶层块，例如 layers: { ... }
+ */
+interface TopLevelBlock {
+  /** 块的键，例如 "layers" 或 "x" */
+  key: string;
+  /** 块的内容（不包含花括号） */
+  content: string;
+  /** 块的内容在代码中的开始位置 */
+  start: number;
+  /** 块的内容在代码中的结束位置（右花括号的位置） */
+  end: number;
+}
+
+/**
+ * 查找 D2 代码中所有顶层的 key: { ... } 块，忽略引号中的花括号
+ * @param code D2 无注释代码
+ * @returns 顶层块
+ */
+function findTopLevelBlocks(code: string): TopLevelBlock[] {
+  const blocks: TopLevelBlock[] = [];
+  let statement = "";
+  let quote: string | null = null;
+  let depth = 0;
+  let blockStart = -1;
+  let blockKey = "";
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+
+    if (quote) {
+      if (char === quote && code[i - 1] !== "\\") {
+        quote = null;
+      }
+      if (depth === 0) {
+        statement += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      if (depth === 0) {
+        statement += char;
+      }
+    } else if (char === "{") {
+      if (depth === 0) {
+        blockStart = i + 1;
+        blockKey = statement.trim().replace(/:$/, "").trim();
+      }
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0 && blockStart !== -1) {
+        blocks.push({ key: blockKey, content: code.substring(blockStart, i), start: blockStart, end: i });
+        blockStart = -1;
+        statement = "";
+      }
+    } else if (depth === 0) {
+      statement = char === "\n" || char === ";" ? "" : statement + char;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * D2 composition 中的一个图板
+ */
+export interface D2Board {
+  /** 传递给 d2 --target 的图板路径，根图板为空字符串，例如 "layers.x" */
+  target: string;
+  /** 图板名称，嵌套的图板以 " / " 连接，例如 "x / y" */
+  name: string;
+}
+
+// composition 关键字
+const COMPOSITION_KEYWORDS = ["layers", "scenarios", "steps"];
+
+/**
+ * 查找 D2 代码中 layers、scenarios 和 steps 下的所有图板（包括嵌套的图板）
+ * @param code D2 无注释代码
+ * @param parent 父图板，查找嵌套图板时使用
+ * @returns 图板列表，按代码中出现的顺序排列
+ */
+export function findBoards(code: string, parent?: D2Board): D2Board[] {
+  const boards: D2Board[] = [];
+
+  for (const block of findTopLevelBlocks(code)) {
+    if (!COMPOSITION_KEYWORDS.includes(block.key)) {
+      continue;
+    }
+
+    for (const child of findTopLevelBlocks(block.content)) {
+      const name = child.key.replace(/^(["'])(.*)\1$/, "$2");
+      const board: D2Board = {
+        target: parent ? `${parent.target}.${block.key}.${child.key}` : `${block.key}.${child.key}`,
+        name: parent ? `${parent.name} / ${name}` : name,
+      };
+      boards.push(board, ...findBoards(child.content, board));
+    }
+  }
+
+  return boards;
+}
+
+/**
+ * 检查根图板是否包含 composition 和 vars 以外的内容
+ * @param code D2 无注释代码
+ * @returns 如果根图板有内容则返回 true
+ */
+export function hasRootBoardContent(code: string): boolean {
+  // 从后向前移除 composition 和 vars 块的内容，避免影响前面块的位置
+  let rest = code;
+  for (const block of findTopLevelBlocks(code).reverse()) {
+    if (COMPOSITION_KEYWORDS.includes(block.key) || block.key === "vars") {
+      rest = rest.slice(0, block.start) + rest.slice(block.end);
+    }
+  }
+  // 移除被清空的块和空白后检查是否还有内容
+  return /\S/.test(rest.replace(/\b(?:layers|scenarios|steps|vars)\s*:\s*\{\s*\}/g, ""));
+}
+
+/**
+ * 将 targets 中的图板路径解析为图板
+ * 与 d2 --target 相同，以 .* 结尾的路径表示该图板及其所有子图板，"*" 表示根图板和所有图板；空字符串表示根图板。
+ * @param targets 图板路径
+ * @param code D2 无注释代码
+ * @returns 按 targets 顺序排列的图板（不重复），以及代码中不存在的图板路径
+ */
+export function resolveTargets(targets: string[], code: string): { boards: D2Board[]; unknown: string[] } {
+  const knownBoards = findBoards(code);
+  const root: D2Board = { target: "", name: "root" };
+  const boards = new Map<string, D2Board>();
+  const unknown: string[] = [];
+
+  for (const target of targets) {
+    let matched: D2Board[];
+    if (target === "") {
+      matched = [root];
+    } else if (target === "*") {
+      matched = hasRootBoardContent(code) ? [root, ...knownBoards] : knownBoards;
+    } else if (target.endsWith(".*")) {
+      const parent = target.slice(0, -2);
+      matched = knownBoards.some((board) => board.target === parent)
+        ? knownBoards.filter((board) => board.target === parent || board.target.startsWith(`${parent}.`))
+        : [];
+    } else {
+      matched = knownBoards.filter((board) => board.target === target);
+    }
+
+    if (matched.length === 0) {
+      unknown.push(target);
+    }
+    for (const board of matched) {
+      boards.set(board.target, board);
+    }
+  }
+
+  return { boards: [...boards.values()], unknown };
+}
+
+// 导入语法：普通导入 (x: @file) 和展开导入 (...@file)，路径可以加引号
+// 先匹配引号字符串和块字符串 (|md ...|、||...||、|`md ...`|) 并跳过，其中类似导入的内容（例如 "contact: @john"）不是导入
+const IMPORT_REGEX = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|\|([^\w\s]*)[\s\S]*?\1\||(\.\.\.|:[ \t]*)@(?:"([^"]+)"|'([^']+)'|([^\s{}"';]+))/g;
+
+/**
+ * 查找 D2 代码中导入的文件路径
+ * 支持普通导入 (x: @file) 和展开导入 (...@file)，路径可以加引号。
+ * 省略扩展名时 d2 会自动补全 .d2，这里同样补全。
+ * @param code D2 无注释代码
+ * @returns 导入的文件路径（相对于导入它的文件）
+ */
+export function findImportPaths(code: string): string[] {
+  const paths = new Set<string>();
+
+  for (const match of code.matchAll(IMPORT_REGEX)) {
+    if (match[2] == null) {
+      continue;
+    }
+    let importPath = match[3] ?? match[4] ?? match[5];
+    if (!importPath.endsWith(".d2")) {
+      importPath += ".d2";
+    }
+    paths.add(importPath);
+  }
+
+  return [...paths];
+}
+
+/**
+ * 改写 D2 代码中的导入路径
+ * @param code D2 代码
+ * @param rewrite 由原导入路径得到新导入路径的函数
+ * @returns 改写后的代码
+ */
+export function rewriteImportPaths(code: string, rewrite: (importPath: string) => string): string {
+  return code.replace(
+    IMPORT_REGEX,
+    (match: string, _delimiter?: string, prefix?: string, doubleQuoted?: string, singleQuoted?: string, bare?: string) =>
+      prefix == null ? match : `${prefix}@"${rewrite(doubleQuoted ?? singleQuoted ?? bare!)}"`,
+  );
+}
+
+/**
+ * 递归收集 D2 代码导入的所有文件
+ * @param code D2 代码
+ * @param baseDir 解析导入路径的基准目录
+ * @param files 已收集的文件（用于去重和避免循环导入）
+ * @returns 导入文件的绝对路径
+ */
+export function collectImportedFiles(code: string, baseDir: string, files: Set<string> = new Set()): string[] {
+  for (const importPath of findImportPaths(removeCommentsFromD2(code))) {
+    const filePath = path.resolve(baseDir, importPath);
+    if (files.has(filePath) || !fs.existsSync(filePath)) {
+      continue;
+    }
+    files.add(filePath);
+    collectImportedFiles(fs.readFileSync(filePath, "utf-8"), path.dirname(filePath), files);
+  }
+  return [...files];
+}
+
+// 不表示形状的保留关键字
+const RESERVED_KEYWORDS = new Set([
+  "label",
+  "shape",
+  "style",
+  "icon",
+  "width",
+  "height",
+  "near",
+  "tooltip",
+  "link",
+  "direction",
+  "class",
+  "classes",
+  "constraint",
+  "top",
+  "left",
+  "grid-rows",
+  "grid-columns",
+  "grid-gap",
+  "vertical-gap",
+  "horizontal-gap",
+  "source-arrowhead",
+  "target-arrowhead",
+  "filled",
+  "vars",
+  "layers",
+  "scenarios",
+  "steps",
+  "imports",
+  "*",
+  "**",
+]);
+
+// 连接运算符，按长度排列以优先匹配 <->
+const CONNECTION_REGEX = /\s*(<->|->|<-|--)\s*/;
+
+/**
+ * 移除键两端的引号和空白
+ * @param key D2 键
+ * @returns 清理后的键
+ */
+function cleanKey(key: string): string {
+  return key.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+/**
+ * 检查键是否引用了保留关键字，例如 style.fill 或 x.style
+ * @param key D2 键
+ * @returns 如果是保留关键字则返回 true
+ */
+function isReservedKey(key: string): boolean {
+  return key.split(".").some((part) => RESERVED_KEYWORDS.has(cleanKey(part))) || key.startsWith("(") || key.startsWith("&") || key.startsWith("!");
+}
+
+/**
+ * 根据 D2 代码生成图表的文本描述（形状和连接列表），供屏幕阅读器使用
+ * 只描述根图板，忽略 vars、样式和 composition 中的内容。
+ * @param code D2 无注释代码
+ * @returns 图表的文本描述，没有形状时返回空字符串
+ */
+export function describeDiagram(code: string): string {
+  const shapes = new Map<string, string>();
+  const connections: string[] = [];
+
+  const addShape = (id: string, label?: string) => {
+    if (!shapes.has(id) || label) {
+      shapes.set(id, label || id.split(".").pop()!);
+    }
+  };
+
+  const walk = (content: string, prefix: string) => {
+    // 顶层块单独处理，其余按语句处理
+    const blocks = findTopLevelBlocks(content);
+    let rest = content;
+    for (const block of [...blocks].reverse()) {
+      rest = rest.slice(0, block.start) + rest.slice(block.end);
+    }
+
+    for (const block of blocks) {
+      const [key, label] = block.key.split(/:(.*)/s).map((part) => part?.trim());
+      // 连接的样式块（例如 a -> b: { ... }）移除内容后按语句处理
+      if (!key || isReservedKey(key) || CONNECTION_REGEX.test(key)) {
+        continue;
+      }
+      const id = prefix + cleanKey(key);
+      addShape(id, label ? cleanKey(label) : undefined);
+      walk(block.content, `${id}.`);
+    }
+
+    for (const rawStatement of rest.split(/[\n;]/)) {
+      // 移除被清空的块的花括号
+      const statement = rawStatement.replace(/\{\s*\}?$/, "").trim();
+      if (!statement) {
+        continue;
+      }
+
+      const [head, label] = statement.split(/:(.*)/s).map((part) => part?.trim());
+      if (head === "label" && prefix && label) {
+        // 容器中的 label: 设置容器的标签
+        addShape(prefix.slice(0, -1), cleanKey(label));
+      } else if (CONNECTION_REGEX.test(head)) {
+        // 连接，例如 a -> b -> c: label
+        const parts = head.split(CONNECTION_REGEX);
+        for (let i = 0; i + 2 < parts.length; i += 2) {
+          const source = cleanKey(parts[i]);
+          const target = cleanKey(parts[i + 2]);
+          if (!source || !target || isReservedKey(source) || isReservedKey(target)) {
+            continue;
+          }
+          addShape(prefix + source);
+          addShape(prefix + target);
+
+          const sourceLabel = prefix + source;
+          const targetLabel = prefix + target;
+          const operator = parts[i + 1];
+          let description =
+            operator === "<->"
+              ? `${sourceLabel} and ${targetLabel} connect to each other`
+              : operator === "<-"
+                ? `${targetLabel} connects to ${sourceLabel}`
+                : operator === "--"
+                  ? `${sourceLabel} is connected to ${targetLabel}`
+                  : `${sourceLabel} connects to ${targetLabel}`;
+          if (label && i + 3 >= parts.length) {
+            description += ` (${cleanKey(label)})`;
+          }
+          connections.push(description);
+        }
+      } else if (!isReservedKey(head) && !head.startsWith("...")) {
+        // 形状声明，例如 x 或 x: label
+        addShape(prefix + cleanKey(head), label && !label.startsWith("@") ? cleanKey(label) : undefined);
+      }
+    }
+  };
+
+  walk(code, "");
+
+  if (shapes.size === 0) {
+    return "";
+  }
+
+  const shapeList = [...shapes].map(([id, label]) => (label === id.split(".").pop() ? id : `${label} (${id})`));
+  let description = `Diagram with ${shapes.size} shape${shapes.size === 1 ? "" : "s"}: ${shapeList.join(", ")}.`;
+  if (connections.length > 0) {
+    description += ` ${connections.length} connection${connections.length === 1 ? "" : "s"}: ${connections.join("; ")}.`;
+  }
+  return description;
+}
@@ -1,8 +1,14 @@
-import { spawnSync } from "child_process";
-import { createHash } from "crypto";
-import fs, { existsSync, mkdirSync, unlinkSync, writeFileSync } from "fs";
+import { createHash, randomBytes } from "crypto";
+import fs, { existsSync, mkdirSync, renameSync } from "fs";
+import { rm } from "fs/promises";
 import path from "path";
 import { Config, FileType } from "./config.js";
+import { renderQueue } from "./render-queue.js";
+import { DiagramSource, recordCacheEntry } from "./cache-manifest.js";
+import { resolveD2Executable } from "./d2-binary.js";
+import { BoardOutput, D2Backend, RenderJob, getBackend } from "./backend.js";
+import { appendD2ConfigVars, collectImportedFiles } from "./d2-helper.js";
+import { applyPrelude, getPreludeFiles } from "./prelude.js";
 
 /**
  * 生成内容的短哈希值
@@ -10,10 +16,33 @@ import { Config, FileType } from "./config.js";
  * @param length 哈希值的长度，默认为 7
  * @returns 指定长度的 SHA256 哈希值十六进制字符串
  */
-function getShortHash(content: string, length = 7) {
+export function getShortHash(content: string, length = 7) {
   return createHash("sha256").update(content).digest("hex").slice(0, length);
 }
 
+/**
+ * d2 命令执行失败时抛出的错误，保留 d2 的错误输出
+ */
+export class D2CommandError extends Error {
+  /**
+   * @param stderr d2 的错误输出
+   */
+  constructor(readonly stderr: string) {
+    super(`D2 command failed: ${stderr}`);
+    this.name = "D2CommandError";
+  }
+}
+
+/**
+ * 获取代码片段 (<<< ./diagram.d2) 引用的外部文件
+ * @param token Markdown token
+ * @returns 外部文件的绝对路径，代码块有内联内容时返回 null
+ */
+export function getSnippetFile(token: any): string | null {
+  const [src] = token.src ?? [];
+  return !token.content.trim() && src ? path.resolve(src) : null;
+}
+
 /**
  * 从 token 读取 D2 内容（可能来自外部文件）
  * @param token Markdown token
@@ -45,14 +74,14 @@ export function readDiagramContent(token: any): string | null {
 /**
  * 构建 D2 命令行参数
  * @param config 配置对象
- * @param tempD2FilePath 临时 D2 文件路径
+ * @param inputFilePath 输入 D2 文件路径
  * @param imageFilePath 输出图像文件路径
  * @returns D2 命令行参数数组
  */
-export function buildArgs(config: Config, tempD2FilePath: string = "", imageFilePath: string = ""): string[] {
+export function buildArgs(config: Config, inputFilePath: string = "", imageFilePath: string = ""): string[] {
   const args: string[] = [];
-  if (tempD2FilePath) {
-    args.push(tempD2FilePath);
+  if (inputFilePath) {
+    args.push(inputFilePath);
   }
   if (imageFilePath) {
     args.push(imageFilePath);
@@ -102,8 +131,49 @@ export function buildArgs(config: Config, tempD2FilePath: string = "", imageFile
     args.push(`--target=${config.target}`);
   }
 
-  // 当文件类型为 SVG 时，自动添加 --no-xml-tag 参数，与 renderSVG 中移除 XML 标签的行为保持一致
-  if (config.stdoutFormat === FileType.SVG) {
+  // 布局引擎参数，只有对应的布局引擎会使用
+  const layoutArgs: [string, string | number | undefined][] = [
+    ["--elk-algorithm", config.elkAlgorithm],
+    ["--elk-nodeNodeBetweenLayersSpacing", config.elkNodeNodeBetweenLayersSpacing],
+    ["--elk-padding", config.elkPadding],
+    ["--elk-edgeNodeBetweenLayersSpacing", config.elkEdgeNodeBetweenLayersSpacing],
+    ["--elk-nodeSelfLoop", config.elkNodeSelfLoop],
+    ["--dagre-nodesep", config.dagreNodesep],
+    ["--dagre-edgesep", config.dagreEdgesep],
+  ];
+  for (const [flag, value] of layoutArgs) {
+    if (value != null) {
+      args.push(`${flag}=${value}`);
+    }
+  }
+
+  // 字体文件路径按 d2Cwd 解析，因为 d2 可能在图表代码所在文件的目录中运行
+  const fontArgs: [string, string | undefined][] = [
+    ["--font-regular", config.fontRegular],
+    ["--font-italic", config.fontItalic],
+    ["--font-bold", config.fontBold],
+    ["--font-semibold", config.fontSemiBold],
+  ];
+  for (const [flag, fontPath] of fontArgs) {
+    if (fontPath) {
+      args.push(`${flag}=${path.resolve(resolveD2Executable(config).cwd, fontPath)}`);
+    }
+  }
+
+  if (config.salt != null) {
+    args.push(`--salt=${config.salt}`);
+  }
+
+  if (config.omitVersion === true) {
+    args.push("--omit-version");
+  }
+
+  if (config.d2ExtraArgs != null) {
+    args.push(...config.d2ExtraArgs);
+  }
+
+  // 当文件类型为 SVG 时，默认添加 --no-xml-tag 参数，与 renderSVG 中移除 XML 标签的行为保持一致
+  if (config.noXmlTag ?? config.stdoutFormat === FileType.SVG) {
     args.push("--no-xml-tag");
   }
 
@@ -111,17 +181,118 @@ export function buildArgs(config: Config, tempD2FilePath: string = "", imageFile
 }
 
 /**
- * 生成 D2 图表文件
+ * 图表生成结果
+ */
+export interface DiagramResult {
+  /** 输出图像文件路径 */
+  imageFilePath: string;
+  /** 输出文件类型 */
+  fileType: FileType;
+  /** 图表导入的文件和 prelude 文件（绝对路径），这些文件改变时需要重新生成图表 */
+  dependencies: string[];
+}
+
+// 临时输出文件名格式：d2-diagram-<hash>.<pid>-<random>.tmp.<ext>，d2 渲染多个图板时输出到去掉扩展名的目录
+const TEMP_FILE_REGEX = /\.(\d+)-[0-9a-f]+\.tmp(?:\.[^.]+)?$/;
+
+// 已清理过残留临时文件的输出目录
+const sweptDirectories = new Set<string>();
+
+/**
+ * 检查进程是否仍在运行
+ * @param pid 进程 ID
+ * @returns 如果进程仍在运行则返回 true
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM 表示进程存在但无权发送信号
+    return error.code === "EPERM";
+  }
+}
+
+/**
+ * 删除输出目录中由已退出进程遗留的临时文件（例如 d2 或构建进程崩溃时）
+ * 每个目录在每个进程中只清理一次
+ * @param outputDir 输出目录
+ */
+function removeStaleTempFiles(outputDir: string) {
+  if (sweptDirectories.has(outputDir)) {
+    return;
+  }
+  sweptDirectories.add(outputDir);
+
+  for (const fileName of fs.readdirSync(outputDir)) {
+    const match = fileName.match(TEMP_FILE_REGEX);
+    if (match && !isProcessAlive(Number(match[1]))) {
+      fs.rmSync(path.join(outputDir, fileName), { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * 获取本次渲染唯一的临时输出文件路径，保留原扩展名以便 d2 识别输出格式
+ * @param imageFilePath 输出图像文件路径
+ * @returns 临时输出文件路径
+ */
+function getTempFilePath(imageFilePath: string): string {
+  const ext = path.extname(imageFilePath);
+  const base = imageFilePath.slice(0, imageFilePath.length - ext.length);
+  return `${base}.${process.pid}-${randomBytes(4).toString("hex")}.tmp${ext}`;
+}
+
+// 检查模式下未命中缓存的图表的输出目录（见 setCheckDirectory）
+let checkDirectory: string | null = null;
+
+/**
+ * 设置检查模式：缓存目录中已有的图表直接使用，其余图表生成到指定的目录，不写入缓存目录和缓存清单
+ * @param directory 临时输出目录，null 时关闭检查模式
+ */
+export function setCheckDirectory(directory: string | null) {
+  checkDirectory = directory;
+}
+
+/**
+ * 记录图表的使用，检查模式下不更新缓存清单
+ * @param imageFilePath 输出图像文件路径
+ * @param source 生成图表的代码块位置
+ * @param config 配置对象
+ * @param created 图表是否刚刚生成
+ */
+function recordDiagramUse(imageFilePath: string, source: DiagramSource, config: Config, created = false) {
+  if (!checkDirectory) {
+    recordCacheEntry(imageFilePath, source, config, created);
+  }
+}
+
+/**
+ * 获取运行 d2 和解析 D2 导入路径的基准目录
+ * 显式设置的 d2Cwd 优先，否则为图表代码所在文件的目录，都未知时为当前目录。
+ * @param config 配置对象
+ * @param source 生成图表的代码块位置
+ * @returns 基准目录的绝对路径
+ */
+export function getDiagramBaseDir(config: Config, source: DiagramSource): string {
+  return config.d2Cwd == null && source.file ? path.dirname(source.file) : resolveD2Executable(config).cwd;
+}
+
+/**
+ * 解析图表的输出位置和 D2 命令行参数
  * @param code D2 代码
  * @param config 配置对象
- * @returns 包含图像文件路径和文件类型的结果对象
+ * @param source 生成图表的代码块位置
+ * @returns 文件类型、命令行参数、传递给 d2 的代码、映射错误行号的函数、输出图像文件路径、依赖的文件和运行 d2 的方式
  */
-export function generateDiagram(code: string, config: Config) {
-  // 创建输出目录（如果不存在）
-  const outputDir = `${config.directory ?? "d2-diagrams"}`;
+function resolveDiagramOutput(code: string, config: Config, source: DiagramSource) {
+  // 创建输出目录（如果不存在），检查模式下图表生成到临时目录
+  const cacheDir = `${config.directory ?? "d2-diagrams"}`;
+  const outputDir = checkDirectory ?? cacheDir;
   if (!existsSync(outputDir)) {
     mkdirSync(outputDir, { recursive: true });
   }
+  removeStaleTempFiles(outputDir);
 
   // 获取文件类型
   const fileType = config.stdoutFormat ?? FileType.SVG;
@@ -129,42 +300,351 @@ export function generateDiagram(code: string, config: Config) {
   // 构建命令行参数
   const args = buildArgs(config);
 
-  // 生成图表图像输出文件的唯一文件名
-  const fileID = getShortHash(`${fileType} ${args.join(" ")} ${code}`);
-  const imageFilePath = path.join(outputDir, `d2-diagram-${fileID}.${fileType}`);
-
-  if (existsSync(imageFilePath)) {
-    // console.debug("Cache hit: ", imageFilePath);
-    return { imageFilePath, fileType };
-  }
+  // 未设置 d2Cwd 时在图表代码所在文件的目录中运行 d2，使 D2 导入相对于该文件解析
+  const executable = { ...resolveD2Executable(config), cwd: getDiagramBaseDir(config, source) };
 
-  // 将 D2 图表代码写入临时 .d2 文件
-  const tempD2FilePath = path.join(outputDir, "temp.d2");
-  writeFileSync(tempD2FilePath, code);
+  // 共享的 prelude 添加到代码之前，计入缓存键
+  const { input: preludeInput, mapErrorLines } = applyPrelude(code, config, executable.cwd);
 
-  // 运行 D2 命令生成输出图表图像文件
-  const command = spawnSync("d2", [tempD2FilePath, imageFilePath, ...args], {
-    encoding: "utf-8",
-    stdio: "pipe",
+  // d2 没有主题颜色覆盖的命令行参数，通过 vars.d2-config 传递
+  const input = appendD2ConfigVars(preludeInput, {
+    "theme-overrides": config.themeOverrides,
+    "dark-theme-overrides": config.darkThemeOverrides,
   });
 
-  // console.debug("D2 Command: d2", [tempD2FilePath, imageFilePath, ...args].join(" "));
+  // 导入文件、prelude 文件及其导入的文件的内容也会影响输出，计入缓存键
+  const dependencies = [...new Set([...collectImportedFiles(code, executable.cwd), ...getPreludeFiles(config)])];
+  const dependencyContents = dependencies.map((filePath) => `${filePath}\n${fs.readFileSync(filePath, "utf-8")}`).join("\n");
 
-  // 删除临时 D2 文件
-  unlinkSync(tempD2FilePath);
+  // 生成图表图像输出文件的唯一文件名，包含 d2 版本以便升级 d2 后重新生成
+  // 不包含渲染后端，d2 版本相同时各后端的输出可以互换
+  const version = getBackend(config).getVersion(config);
+  const env = JSON.stringify(config.d2Env ?? {});
+  const fileID = getShortHash(`${fileType} ${args.join(" ")} ${version} ${env} ${getShortHash(dependencyContents)} ${input}`);
+  const fileName = `d2-diagram-${fileID}.${fileType}`;
+  // 检查模式下缓存目录中已有的图表视为缓存命中
+  const cachedFilePath = path.join(cacheDir, fileName);
+  const imageFilePath = checkDirectory && existsSync(cachedFilePath) ? cachedFilePath : path.join(outputDir, fileName);
 
+  return { fileType, args, input, mapErrorLines, imageFilePath, dependencies, executable };
+}
+
+/**
+ * 查找已缓存的 D2 图表文件
+ * @param code D2 代码
+ * @param config 配置对象
+ * @param source 生成图表的代码块位置
+ * @returns 缓存命中时返回结果对象，否则返回 null
+ */
+export function findCachedDiagram(code: string, config: Config, source: DiagramSource = {}): DiagramResult | null {
+  // 后端（例如 WASM 模块）尚未加载时无法确定缓存键，视为未命中
+  if (!getBackend(config).isReady(config)) {
+    return null;
+  }
+
+  const { imageFilePath, fileType, dependencies } = resolveDiagramOutput(code, config, source);
+  if (existsSync(imageFilePath)) {
+    // console.debug("Cache hit: ", imageFilePath);
+    recordDiagramUse(imageFilePath, source, config);
+    return { imageFilePath, fileType, dependencies };
+  }
+  return null;
+}
+
+/**
+ * 检查 D2 命令的执行结果，成功时将临时输出文件原子地重命名为最终文件
+ * 因此只有完整写入的图像才会被视为缓存命中
+ * @param status 渲染后端的退出码
+ * @param stderr 渲染后端的错误输出
+ * @param tempFilePath 临时输出文件路径
+ * @param imageFilePath 输出图像文件路径
+ */
+function commitD2Result(status: number | null, stderr: string, tempFilePath: string, imageFilePath: string) {
   // 记录 D2 命令的任何错误
-  if (command.status !== 0) {
-    console.error(`Error: Failed to generate D2 diagram.\n${command.stderr}`);
-    throw new Error(`D2 command failed: ${command.stderr}`);
+  if (status !== 0) {
+    console.error(`Error: Failed to generate D2 diagram.\n${stderr}`);
+    throw new D2CommandError(stderr);
   }
 
   // 验证输出文件是否已创建
-  if (!existsSync(imageFilePath)) {
+  if (!existsSync(tempFilePath)) {
     const errorMsg = `D2 command completed successfully but output file was not created: ${imageFilePath}`;
     console.error(errorMsg);
     throw new Error(errorMsg);
   }
 
-  return { imageFilePath, fileType };
+  renameSync(tempFilePath, imageFilePath);
+}
+
+/**
+ * 生成 D2 图表文件
+ * 输出先写入本次渲染唯一的临时文件，因此多个进程共享同一输出目录时不会互相覆盖。
+ * @param code D2 代码
+ * @param config 配置对象
+ * @param source 生成图表的代码块位置
+ * @returns 包含图像文件路径和文件类型的结果对象
+ */
+export function generateDiagram(code: string, config: Config, source: DiagramSource = {}): DiagramResult {
+  const backend = getBackend(config);
+  if (!backend.renderSync) {
+    throw new Error(`The ${config.backend} backend only renders asynchronously. Add d2VitePlugin() to the Vite plugins to use it.`);
+  }
+
+  const { fileType, args, input, mapErrorLines, imageFilePath, dependencies, executable } = resolveDiagramOutput(code, config, source);
+
+  if (existsSync(imageFilePath)) {
+    // console.debug("Cache hit: ", imageFilePath);
+    recordDiagramUse(imageFilePath, source, config);
+    return { imageFilePath, fileType, dependencies };
+  }
+
+  // d2 可能在其他工作目录中运行，输出路径使用绝对路径
+  const tempFilePath = path.resolve(getTempFilePath(imageFilePath));
+
+  try {
+    // 通过渲染后端生成输出图表图像文件
+    const job = { input, args, fileType, outputFilePath: tempFilePath, imports: dependencies, executable, config };
+    const { status, stderr } = backend.renderSync(job);
+    commitD2Result(status, mapErrorLines(stderr), tempFilePath, imageFilePath);
+  } finally {
+    // 删除失败或中断时残留的临时输出文件
+    fs.rmSync(tempFilePath, { force: true });
+  }
+
+  recordDiagramUse(imageFilePath, source, config, true);
+  return { imageFilePath, fileType, dependencies };
+}
+
+// 正在生成中的图表，避免多个页面同时渲染同一个图表
+const inflightDiagrams = new Map<string, Promise<DiagramResult>>();
+
+/**
+ * 异步生成 D2 图表文件，通过共享的渲染队列限制并发的渲染数量
+ * @param code D2 代码
+ * @param config 配置对象
+ * @param source 生成图表的代码块位置
+ * @returns 包含图像文件路径和文件类型的结果对象
+ */
+export function generateDiagramAsync(code: string, config: Config, source: DiagramSource = {}): Promise<DiagramResult> {
+  // 缓存键包含 d2 版本，后端（例如 WASM 模块）加载完成后才能确定
+  const backend = getBackend(config);
+  if (!backend.isReady(config)) {
+    return backend.prepare(config).then(() => generateDiagramAsync(code, config, source));
+  }
+
+  const { fileType, args, input, mapErrorLines, imageFilePath, dependencies, executable } = resolveDiagramOutput(code, config, source);
+
+  // 缓存命中时不进入渲染队列
+  if (existsSync(imageFilePath)) {
+    recordDiagramUse(imageFilePath, source, config);
+    return Promise.resolve({ imageFilePath, fileType, dependencies });
+  }
+
+  const inflight = inflightDiagrams.get(imageFilePath);
+  if (inflight) {
+    return inflight.then((result) => {
+      recordDiagramUse(imageFilePath, source, config);
+      return result;
+    });
+  }
+
+  const promise = renderQueue
+    .run(async () => {
+      // d2 可能在其他工作目录中运行，输出路径使用绝对路径
+      const tempFilePath = path.resolve(getTempFilePath(imageFilePath));
+
+      try {
+        // 通过渲染后端生成输出图表图像文件
+        const job = { input, args, fileType, outputFilePath: tempFilePath, imports: dependencies, executable, config };
+        const { status, stderr } = await backend.render(job);
+        commitD2Result(status, mapErrorLines(stderr), tempFilePath, imageFilePath);
+      } finally {
+        // 删除失败或中断时残留的临时输出文件
+        await rm(tempFilePath, { force: true });
+      }
+
+      recordDiagramUse(imageFilePath, source, config, true);
+      return { imageFilePath, fileType, dependencies };
+    })
+    .finally(() => inflightDiagrams.delete(imageFilePath));
+
+  inflightDiagrams.set(imageFilePath, promise);
+  return promise;
+}
+
+/**
+ * 一次渲染中生成的图板，以及图板的缓存文件
+ */
+interface PendingBoard extends BoardOutput {
+  /** 图板的配置 */
+  config: Config;
+  /** 输出图像文件路径（缓存文件） */
+  imageFilePath: string;
+}
+
+/**
+ * 一组图板的渲染任务
+ */
+interface BoardsJob {
+  /** 不指定图板的渲染任务 */
+  job: RenderJob;
+  /** 未命中缓存的图板 */
+  boards: PendingBoard[];
+  /** 将错误输出中的行号映射回图表代码 */
+  mapErrorLines: (stderr: string) => string;
+}
+
+/**
+ * 将只有图板 (target) 不同的图像配置分为一组，同一组的图像可以来自同一次编译
+ * @param configs 每张图像的配置
+ * @returns 配置分组
+ */
+function groupBoardConfigs(configs: Config[]): Config[][] {
+  const groups = new Map<string, Config[]>();
+  for (const config of configs) {
+    const key = JSON.stringify({ ...config, target: undefined });
+    groups.set(key, [...(groups.get(key) ?? []), config]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * 准备在一次渲染中生成一组图板，只包含未命中缓存且不在生成中的图板
+ * 启用动画时 d2 将多个图板合成一张动画，因此这样的图板单独渲染。
+ * @param code D2 代码
+ * @param group 只有图板不同的图像配置
+ * @param source 生成图表的代码块位置
+ * @returns 渲染任务，少于两个图板需要生成时返回 null
+ */
+function prepareBoardsJob(code: string, group: Config[], source: DiagramSource): BoardsJob | null {
+  const [first] = group;
+  if (group.length < 2 || first.animateInterval || first.stdoutFormat === FileType.GIF || group.some((config) => config.target == null)) {
+    return null;
+  }
+
+  const pending = group
+    .map((config) => ({ config, target: config.target!, imageFilePath: resolveDiagramOutput(code, config, source).imageFilePath }))
+    .filter((board) => !existsSync(board.imageFilePath) && !inflightDiagrams.has(board.imageFilePath));
+  if (pending.length < 2) {
+    return null;
+  }
+
+  const config = { ...first, target: undefined };
+  const { fileType, args, input, mapErrorLines, imageFilePath, dependencies, executable } = resolveDiagramOutput(code, config, source);
+  // d2 可能在其他工作目录中运行，输出路径使用绝对路径
+  const outputFilePath = path.resolve(getTempFilePath(imageFilePath));
+  return {
+    job: { input, args, fileType, outputFilePath, imports: dependencies, executable, config },
+    boards: pending.map((board) => ({ ...board, outputFilePath: path.resolve(getTempFilePath(board.imageFilePath)) })),
+    mapErrorLines,
+  };
+}
+
+/**
+ * 检查一组图板的渲染结果，将生成的图板原子地重命名为各自的缓存文件
+ * @param status 渲染后端的退出码
+ * @param stderr 渲染后端的错误输出
+ * @param boards 图板
+ */
+function commitBoards(status: number | null, stderr: string, boards: PendingBoard[]) {
+  if (status !== 0) {
+    console.error(`Error: Failed to generate D2 diagram.\n${stderr}`);
+    throw new D2CommandError(stderr);
+  }
+
+  for (const board of boards) {
+    if (existsSync(board.outputFilePath)) {
+      renameSync(board.outputFilePath, board.imageFilePath);
+    }
+  }
+}
+
+/**
+ * 生成一个图表的所有图像
+ * 同一图表的多个图板在一次渲染中生成，再分别写入各图板的缓存文件，因此与单独渲染的图板共享缓存；
+ * 未生成的图板（例如后端不支持一次渲染多个图板）单独渲染。
+ * @param code D2 代码
+ * @param configs 每张图像的配置
+ * @param source 生成图表的代码块位置
+ * @returns 与 configs 顺序一致的结果对象
+ */
+export function generateDiagrams(code: string, configs: Config[], source: DiagramSource = {}): DiagramResult[] {
+  const backend = getBackend(configs[0]);
+  if (backend.renderBoardsSync) {
+    for (const group of groupBoardConfigs(configs)) {
+      const prepared = prepareBoardsJob(code, group, source);
+      if (!prepared) {
+        continue;
+      }
+
+      const { job, boards, mapErrorLines } = prepared;
+      try {
+        const { status, stderr } = backend.renderBoardsSync(job, boards);
+        commitBoards(status, mapErrorLines(stderr), boards);
+      } finally {
+        // 删除失败或中断时残留的临时输出文件
+        for (const filePath of [job.outputFilePath, ...boards.map((board) => board.outputFilePath)]) {
+          fs.rmSync(filePath, { force: true });
+        }
+      }
+    }
+  }
+
+  return configs.map((config) => generateDiagram(code, config, source));
+}
+
+/**
+ * 通过渲染队列在一次渲染中异步生成一组图板
+ * 生成期间其他页面中相同的图板等待本次渲染，完成后从缓存读取或单独渲染。
+ * @param code D2 代码
+ * @param group 只有图板不同的图像配置
+ * @param source 生成图表的代码块位置
+ * @param backend 渲染后端
+ */
+function generateBoardsAsync(code: string, group: Config[], source: DiagramSource, backend: D2Backend): Promise<void> {
+  const prepared = prepareBoardsJob(code, group, source);
+  if (!prepared) {
+    return Promise.resolve();
+  }
+
+  const { job, boards, mapErrorLines } = prepared;
+  const promise = renderQueue
+    .run(async () => {
+      try {
+        const { status, stderr } = await backend.renderBoards!(job, boards);
+        commitBoards(status, mapErrorLines(stderr), boards);
+      } finally {
+        // 删除失败或中断时残留的临时输出文件
+        await Promise.all([job.outputFilePath, ...boards.map((board) => board.outputFilePath)].map((filePath) => rm(filePath, { force: true })));
+      }
+    })
+    .finally(() => boards.forEach((board) => inflightDiagrams.delete(board.imageFilePath)));
+
+  for (const board of boards) {
+    const result = promise.then(() => generateDiagramAsync(code, board.config, source));
+    // 错误由等待该图板的调用方处理
+    result.catch(() => {});
+    inflightDiagrams.set(board.imageFilePath, result);
+  }
+  return promise;
+}
+
+/**
+ * 异步生成一个图表的所有图像，同一图表的多个图板在一次渲染中生成（见 generateDiagrams）
+ * @param code D2 代码
+ * @param configs 每张图像的配置
+ * @param source 生成图表的代码块位置
+ * @returns 与 configs 顺序一致的结果对象
+ */
+export async function generateDiagramsAsync(code: string, configs: Config[], source: DiagramSource = {}): Promise<DiagramResult[]> {
+  // 缓存键包含 d2 版本，后端（例如 WASM 模块）加载完成后才能确定
+  const backend = getBackend(configs[0]);
+  if (!backend.isReady(configs[0])) {
+    await backend.prepare(configs[0]);
+  }
+
+  if (backend.renderBoards) {
+    await Promise.all(groupBoardConfigs(configs).map((group) => generateBoardsAsync(code, group, source, backend)));
+  }
+  return Promise.all(configs.map((config) => generateDiagramAsync(code, config, source)));
 }
@@ -0,0 +1,70 @@
+import path from "path";
+import { Config } from "./config.js";
+
+// 引入语法：@[d2](./arch/overview.d2){layout=elk target="layers.prod"}
+const INCLUDE_REGEX = /^@\[d2\]\(\s*([^)\s]+)\s*\)\s*(\{.*\})?\s*$/;
+
+/**
+ * 解析引入的 .d2 文件路径
+ * ./ 和 ../ 开头的路径相对于页面，其余路径相对于 diagramsRoot（未设置时相对于页面）。
+ * diagramsRoot 与 prelude 文件一样按 d2Cwd 解析，未设置 d2Cwd 时按当前目录解析。
+ * @param file 引入语法中的路径
+ * @param env Markdown 渲染环境（VitePress 提供 path）
+ * @param config 默认配置
+ * @returns 文件的绝对路径
+ */
+export function resolveIncludePath(file: string, env: any, config: Config): string {
+  const pageDir = env?.path ? path.dirname(env.path) : process.cwd();
+  if (/^\.\.?[\\/]/.test(file) || !config.diagramsRoot) {
+    return path.resolve(pageDir, file);
+  }
+  return path.resolve(config.d2Cwd ?? ".", config.diagramsRoot, file);
+}
+
+/**
+ * 解析一行引入语法
+ * @param line 行内容（不含缩进）
+ * @returns 引入的文件路径和属性（包含花括号），不是引入语法时返回 null
+ */
+export function parseIncludeLine(line: string): { file: string; attributes: string } | null {
+  const match = line.match(INCLUDE_REGEX);
+  return match ? { file: match[1], attributes: match[2] ?? "" } : null;
+}
+
+/**
+ * 创建解析 @[d2](path){attrs} 引入语法的 markdown-it 块规则
+ * 引入被转换为与代码片段 (<<< ./diagram.d2) 相同的 fence token，属性作为代码块属性，
+ * 因此引入的图表同样参与缓存，并在文件修改时重新渲染。
+ * @param config 默认配置
+ * @returns markdown-it 块规则
+ */
+export function createIncludeRule(config: Config) {
+  return (state: any, startLine: number, _endLine: number, silent: boolean): boolean => {
+    // 缩进 4 个空格以上为代码块
+    if (state.sCount[startLine] - state.blkIndent >= 4) {
+      return false;
+    }
+
+    const start = state.bMarks[startLine] + state.tShift[startLine];
+    const line = state.src.slice(start, state.eMarks[startLine]);
+    const include = parseIncludeLine(line);
+    if (!include) {
+      return false;
+    }
+    if (silent) {
+      return true;
+    }
+
+    const { file, attributes } = include;
+    const token = state.push("fence", "code", 0);
+    token.info = attributes ? `d2 ${attributes}` : "d2";
+    token.content = "";
+    token.markup = "```";
+    token.map = [startLine, startLine + 1];
+    token.src = [resolveIncludePath(file, state.env, config)];
+    token.meta = { d2Include: true };
+
+    state.line = startLine + 1;
+    return true;
+  };
+}
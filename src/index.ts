@@ -1 +1,9 @@
-export { d2 as default } from "./renderer.js";
+export { d2 as default, renderD2 } from "./renderer.js";
+export type { RenderD2Options, RenderD2Result } from "./renderer.js";
+export { d2VitePlugin } from "./vite-plugin.js";
+export { Layout, Theme, FileType, OutputMode, Backend } from "./config.js";
+export type { Config, D2Config, CacheConfig } from "./config.js";
+export { parseConfig, parseAndConvertConfig, parseFenceAttributes, convertD2ConfigToConfig } from "./config-parser.js";
+export { validateDiagramConfig, validatePluginOptions, validateTargets } from "./config-validator.js";
+export type { ConfigDiagnostic } from "./config-validator.js";
+export { D2CommandError } from "./diagram-generator.js";
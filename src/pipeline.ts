@@ -0,0 +1,138 @@
+import { createHash } from "crypto";
+
+// 图表占位符格式，例如：<!--d2-diagram:1a2b3c4d5e6f-->
+const PLACEHOLDER_REGEX = /<!--d2-diagram:([0-9a-f]+)-->/g;
+
+/**
+ * 图表渲染结果
+ */
+export interface RenderedDiagram {
+  /** 图表 HTML */
+  html: string;
+  /** 图表依赖的外部文件（代码片段文件和 D2 导入文件） */
+  dependencies: string[];
+}
+
+/**
+ * 已调度的图表渲染任务
+ */
+interface ScheduledDiagram {
+  /** 渲染图表（重新读取代码片段和导入文件） */
+  render: () => Promise<RenderedDiagram>;
+  /** 当前的渲染结果 */
+  result?: Promise<RenderedDiagram>;
+}
+
+// 已调度的图表渲染任务，键为占位符 ID
+const scheduledDiagrams = new Map<string, ScheduledDiagram>();
+
+// 每个页面最近一次转换时包含的占位符 ID，键为页面文件路径
+const pageDiagrams = new Map<string, Set<string>>();
+
+// 是否已由 Vite 插件启用异步渲染管线
+let pipelineEnabled = false;
+
+/**
+ * 启用异步渲染管线，由 Vite 插件在配置解析完成后调用
+ */
+export function enableRenderPipeline() {
+  pipelineEnabled = true;
+}
+
+/**
+ * 检查异步渲染管线是否已启用
+ * @returns 如果已启用则返回 true
+ */
+export function isRenderPipelineEnabled(): boolean {
+  return pipelineEnabled;
+}
+
+/**
+ * 调度图表渲染任务，并返回用于替换的占位符
+ * 渲染立即开始，页面转换时等待结果并替换占位符。
+ * @param key 图表的唯一标识（代码、配置和位置）
+ * @param render 渲染图表的函数，抛出的错误在替换占位符时传递给调用方
+ * @returns 图表占位符
+ */
+export function scheduleDiagram(key: string, render: () => Promise<RenderedDiagram>): string {
+  const id = createHash("sha256").update(key).digest("hex").slice(0, 16);
+  const result = render();
+  // 错误在替换占位符时处理，避免在此之前被视为未处理的 rejection
+  result.catch(() => {});
+  scheduledDiagrams.set(id, { render, result });
+  return `<!--d2-diagram:${id}-->`;
+}
+
+/**
+ * 检查内容中是否包含图表占位符
+ * @param content 页面内容
+ * @returns 如果包含占位符则返回 true
+ */
+export function hasDiagramPlaceholders(content: string): boolean {
+  return content.includes("<!--d2-diagram:");
+}
+
+/**
+ * 释放页面不再包含的图表渲染任务
+ * 任务保留到页面下一次转换，因为 VitePress 缓存的页面（例如 SSR 构建和未修改的页面）不会再次调度图表。
+ * @param page 页面文件路径
+ * @param ids 页面当前包含的占位符 ID
+ */
+export function releasePageDiagrams(page: string, ids: Set<string> = new Set()) {
+  for (const id of pageDiagrams.get(page) ?? []) {
+    if (!ids.has(id)) {
+      scheduledDiagrams.delete(id);
+    }
+  }
+  if (ids.size > 0) {
+    pageDiagrams.set(page, ids);
+  } else {
+    pageDiagrams.delete(page);
+  }
+}
+
+/**
+ * 等待页面中所有图表渲染完成，并将占位符替换为渲染结果
+ * 依赖外部文件的图表在下一次解析时重新渲染，因此 VitePress 缓存的页面也能反映文件的修改。
+ * @param content 页面内容
+ * @param page 页面文件路径，页面之前包含而现在不再包含的图表任务被释放
+ * @returns 替换后的页面内容和页面中图表依赖的外部文件
+ */
+export async function resolveDiagramPlaceholders(content: string, page: string): Promise<RenderedDiagram> {
+  const ids = new Set<string>();
+  for (const match of content.matchAll(PLACEHOLDER_REGEX)) {
+    ids.add(match[1]);
+  }
+  releasePageDiagrams(page, ids);
+
+  const rendered = new Map<string, string>();
+  const dependencies = new Set<string>();
+  await Promise.all(
+    [...ids].map(async (id) => {
+      const diagram = scheduledDiagrams.get(id);
+      if (!diagram) {
+        return;
+      }
+
+      diagram.result ??= diagram.render();
+      let result: RenderedDiagram;
+      try {
+        result = await diagram.result;
+      } catch (error) {
+        // 失败的图表在下一次解析时重新渲染
+        diagram.result = undefined;
+        throw error;
+      }
+      if (result.dependencies.length > 0) {
+        diagram.result = undefined;
+      }
+
+      rendered.set(id, result.html);
+      result.dependencies.forEach((file) => dependencies.add(file));
+    }),
+  );
+
+  // 未知的占位符（例如来自其他进程）保持原样
+  const html = content.replace(PLACEHOLDER_REGEX, (placeholder, id: string) => rendered.get(id) ?? placeholder);
+  return { html, dependencies: [...dependencies] };
+}
@@ -0,0 +1,141 @@
+import fs from "fs";
+import path from "path";
+import { Config } from "./config.js";
+import { resolveD2Executable } from "./d2-binary.js";
+import { collectImportedFiles, rewriteImportPaths } from "./d2-helper.js";
+
+/**
+ * 添加到图表代码之前的共享 D2 代码的一部分
+ */
+interface PreludeSegment {
+  /** 错误信息中显示的名称：文件路径或 "prelude[<index>]" */
+  name: string;
+  /** D2 代码 */
+  code: string;
+  /** 解析该部分中 D2 导入的目录：文件所在目录，内联代码为 d2Cwd */
+  dir: string;
+}
+
+/**
+ * 判断 prelude 配置项是否为 .d2 文件路径，否则视为内联的 D2 代码
+ * @param entry prelude 配置项
+ * @returns 如果是文件路径则返回 true
+ */
+function isPreludeFile(entry: string): boolean {
+  return !entry.includes("\n") && entry.trim().endsWith(".d2");
+}
+
+/**
+ * 获取配置的 prelude 配置项列表，代码块设置 noPrelude 时为空
+ * @param config 配置对象
+ * @returns prelude 配置项
+ */
+function getPreludeEntries(config: Config): string[] {
+  if (config.noPrelude || config.prelude == null) {
+    return [];
+  }
+  return Array.isArray(config.prelude) ? config.prelude : [config.prelude];
+}
+
+/**
+ * 获取 prelude 中的文件及其导入的文件，相对路径按 d2Cwd 解析
+ * 这些文件改变时需要重新生成使用 prelude 的图表。
+ * @param config 配置对象
+ * @returns 文件的绝对路径
+ */
+export function getPreludeFiles(config: Config): string[] {
+  const cwd = resolveD2Executable(config).cwd;
+  const files = new Set<string>();
+
+  for (const entry of getPreludeEntries(config)) {
+    if (!isPreludeFile(entry)) {
+      collectImportedFiles(entry, cwd, files);
+      continue;
+    }
+    const filePath = path.resolve(cwd, entry.trim());
+    files.add(filePath);
+    if (fs.existsSync(filePath)) {
+      collectImportedFiles(fs.readFileSync(filePath, "utf-8"), path.dirname(filePath), files);
+    }
+  }
+  return [...files];
+}
+
+/**
+ * 读取 prelude 的所有部分，每次调用都重新读取文件
+ * @param config 配置对象
+ * @returns prelude 的各部分
+ */
+function readPrelude(config: Config): PreludeSegment[] {
+  const cwd = resolveD2Executable(config).cwd;
+
+  return getPreludeEntries(config).map((entry, index) => {
+    if (!isPreludeFile(entry)) {
+      return { name: `prelude[${index}]`, code: entry, dir: cwd };
+    }
+
+    const filePath = path.resolve(cwd, entry.trim());
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`D2 prelude file not found: ${filePath}`);
+    }
+    return { name: path.relative(process.cwd(), filePath), code: fs.readFileSync(filePath, "utf-8"), dir: path.dirname(filePath) };
+  });
+}
+
+/**
+ * 将 prelude 中的 D2 导入路径改写为相对于图表基准目录的路径
+ * prelude 与图表代码一起在图表的基准目录中编译，改写后导入仍相对于 prelude 文件解析。
+ * @param segment prelude 的一部分
+ * @param baseDir 图表的基准目录
+ * @returns 改写后的 D2 代码
+ */
+function resolvePreludeImports(segment: PreludeSegment, baseDir: string): string {
+  return rewriteImportPaths(segment.code, (importPath) => {
+    if (path.isAbsolute(importPath)) {
+      return importPath;
+    }
+    return path.relative(baseDir, path.resolve(segment.dir, importPath)).split(path.sep).join("/");
+  });
+}
+
+/**
+ * 将 prelude 添加到图表代码之前
+ * @param code D2 代码
+ * @param config 配置对象
+ * @param baseDir 图表的基准目录，d2 在该目录中解析导入
+ * @returns 传递给 d2 的代码，以及将 d2 错误信息中的行号映射回图表代码的函数
+ */
+export function applyPrelude(
+  code: string,
+  config: Config,
+  baseDir: string,
+): { input: string; mapErrorLines: (stderr: string) => string } {
+  const segments = readPrelude(config).map((segment) => ({ ...segment, code: resolvePreludeImports(segment, baseDir) }));
+  if (segments.length === 0) {
+    return { input: code, mapErrorLines: (stderr) => stderr };
+  }
+
+  // 每部分以换行结束，记录每部分在输入中的开始行
+  const ranges: { name: string; start: number; lines: number }[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    const lines = segment.code.replace(/\n$/, "").split("\n").length;
+    ranges.push({ name: segment.name, start: offset, lines });
+    offset += lines;
+  }
+  const input = `${segments.map((segment) => segment.code.replace(/\n$/, "")).join("\n")}\n${code}`;
+
+  // d2 错误中输入的位置，例如 "-:5:3:"，图表代码中的行减去 prelude 的行数，prelude 中的行显示对应的文件
+  // 导入文件中的位置以该文件的路径开头，保持不变
+  const mapErrorLines = (stderr: string) =>
+    stderr.replace(/(?<![\w.\\/-])-:(\d+):(\d+):/g, (match, line: string, column: string) => {
+      const lineNumber = Number(line);
+      if (lineNumber > offset) {
+        return `-:${lineNumber - offset}:${column}:`;
+      }
+      const range = ranges.find((item) => lineNumber > item.start && lineNumber <= item.start + item.lines);
+      return range ? `${range.name}:${lineNumber - range.start}:${column}:` : match;
+    });
+
+  return { input, mapErrorLines };
+}
@@ -0,0 +1,71 @@
+import os from "os";
+
+/**
+ * 默认并发数：可用 CPU 核心数
+ */
+export const DEFAULT_CONCURRENCY = os.availableParallelism?.() ?? os.cpus().length ?? 1;
+
+/**
+ * 有界并发的异步任务队列，用于限制同时运行的 d2 进程数量
+ */
+export class RenderQueue {
+  private running = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  /**
+   * @param concurrency 同时运行的最大任务数
+   */
+  constructor(private concurrency: number = DEFAULT_CONCURRENCY) {}
+
+  /**
+   * 设置同时运行的最大任务数
+   * @param concurrency 最大任务数，小于 1 时按 1 处理，不是有限的数字时抛出 RangeError
+   */
+  setConcurrency(concurrency: number) {
+    if (!Number.isFinite(concurrency)) {
+      throw new RangeError(`Concurrency must be a finite number, got ${concurrency}`);
+    }
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    // 并发数调大时立即启动等待中的任务
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      this.running++;
+      this.waiting.shift()!();
+    }
+  }
+
+  /**
+   * 在队列中运行任务，超出并发上限时排队等待
+   * @param task 异步任务
+   * @returns 任务的执行结果
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running >= this.concurrency) {
+      // 等待其他任务完成后移交的运行槽位
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.running++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * 释放运行槽位，如有等待中的任务则直接移交给它
+   */
+  private release() {
+    if (this.running <= this.concurrency && this.waiting.length > 0) {
+      this.waiting.shift()!();
+    } else {
+      this.running--;
+    }
+  }
+}
+
+/**
+ * 所有页面共享的渲染队列
+ */
+export const renderQueue = new RenderQueue();
@@ -1,14 +1,134 @@
 import { existsSync, readFileSync } from "fs";
-import { Config, FileType } from "./config.js";
-import { parseConfig } from "./config-parser.js";
-import { readDiagramContent, generateDiagram } from "./diagram-generator.js";
+import path from "path";
+import { Backend, Config, FileType, OutputMode } from "./config.js";
+import { parseConfig, parseFenceAttributes } from "./config-parser.js";
+import {
+  readDiagramContent,
+  generateDiagrams,
+  generateDiagramsAsync,
+  findCachedDiagram,
+  getSnippetFile,
+  getDiagramBaseDir,
+  D2CommandError,
+  DiagramResult,
+  getShortHash,
+} from "./diagram-generator.js";
+import {
+  D2Board,
+  collectImportedFiles,
+  describeDiagram,
+  findBoards,
+  hasComposition,
+  hasRootBoardContent,
+  removeCommentsFromD2,
+  resolveTargets,
+} from "./d2-helper.js";
+import { isRenderPipelineEnabled, scheduleDiagram, RenderedDiagram } from "./pipeline.js";
+import { renderQueue } from "./render-queue.js";
+import { DiagramSource } from "./cache-manifest.js";
+import { assertD2Version, validateD2Executable } from "./d2-binary.js";
+import { getBackend } from "./backend.js";
+import { getAssetUrl, isAssetOutputAvailable } from "./assets.js";
+import { clearDiagramFailures, configureBuildReport, recordDiagramFailure } from "./build-report.js";
+import { getPreludeFiles } from "./prelude.js";
+import { createIncludeRule } from "./include.js";
+import { validateDiagramConfig, validatePluginOptions, validateTargets } from "./config-validator.js";
+
+// 图表默认的替代文本
+const DEFAULT_ALT = "D2 Diagram";
+
+// 视觉上隐藏但屏幕阅读器可以读取的样式
+const VISUALLY_HIDDEN_STYLE =
+  "position: absolute; width: 1px; height: 1px; margin: -1px; padding: 0; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; border: 0";
+
+/**
+ * 获取图表的替代文本
+ * @param config 配置对象
+ * @returns 替代文本，依次使用 alt、caption 和 title，都未设置时为 "D2 Diagram"
+ */
+function getAltText(config: Config): string {
+  return config.alt || config.caption || config.title || DEFAULT_ALT;
+}
+
+/**
+ * 生成图表的无障碍名称和描述属性
+ * @param name 名称属性，"alt" 或 "aria-label"
+ * @param alt 替代文本
+ * @param describedBy 图表文本描述元素的 ID
+ * @returns HTML 属性字符串（以空格开头）
+ */
+function getLabelAttributes(name: string, alt: string, describedBy?: string): string {
+  return ` ${name}="${escapeHtml(alt)}"` + (describedBy ? ` aria-describedby="${describedBy}"` : "");
+}
+
+// VitePress 暗色模式下根元素的选择器
+const DEFAULT_DARK_MODE_SELECTOR = "html.dark";
+
+// d2 生成的暗色主题样式，例如：@media screen and (prefers-color-scheme:dark){...}
+const DARK_MEDIA_QUERY_REGEX = /@media[^{]*prefers-color-scheme\s*:\s*dark[^{]*\{/g;
+
+/**
+ * 获取暗色模式选择器
+ * @param config 配置对象
+ * @returns 暗色模式选择器，为空字符串时跟随浏览器的 prefers-color-scheme
+ */
+function getDarkModeSelector(config: Config): string {
+  return (config.darkModeSelector ?? DEFAULT_DARK_MODE_SELECTOR).trim();
+}
+
+/**
+ * 将 d2 生成的 prefers-color-scheme 暗色主题样式改写为跟随暗色模式选择器
+ * 例如 .d2-123 .fill-N1{...} 改写为 html.dark .d2-123 .fill-N1{...}
+ * @param svgContent SVG 内容
+ * @param selector 暗色模式选择器
+ * @returns 改写后的 SVG 内容
+ */
+function applyDarkModeSelector(svgContent: string, selector: string): string {
+  let result = "";
+  let lastIndex = 0;
+  for (const match of svgContent.matchAll(DARK_MEDIA_QUERY_REGEX)) {
+    if (match.index! < lastIndex) {
+      continue;
+    }
+
+    // 查找与 @media 匹配的右括号
+    const start = match.index! + match[0].length;
+    let depth = 1;
+    let end = start;
+    for (; end < svgContent.length && depth > 0; end++) {
+      if (svgContent[end] === "{") {
+        depth++;
+      } else if (svgContent[end] === "}") {
+        depth--;
+      }
+    }
+
+    // 为 @media 中每条规则的每个选择器添加前缀，并移除 @media
+    const rules = svgContent
+      .slice(start, end - 1)
+      .replace(/([^{}]+)\{/g, (_, selectors: string) => {
+        const prefixed = selectors
+          .split(",")
+          .map((item) => `${selector} ${item.trim()}`)
+          .join(",");
+        return `${prefixed}{`;
+      });
+    result += svgContent.slice(lastIndex, match.index) + rules;
+    lastIndex = end;
+  }
+
+  return result + svgContent.slice(lastIndex);
+}
 
 /**
  * 渲染 SVG 内容
  * @param svgFilePath SVG 文件路径
+ * @param darkModeSelector 暗色模式选择器，非空时 d2 的暗色主题样式改为跟随该选择器
+ * @param alt 图表的替代文本，作为 SVG 的无障碍名称
+ * @param describedBy 图表文本描述元素的 ID
  * @returns 渲染的 SVG HTML
  */
-export function renderSVG(svgFilePath: string): string {
+export function renderSVG(svgFilePath: string, darkModeSelector: string = "", alt: string = DEFAULT_ALT, describedBy?: string): string {
   // 检查文件是否存在
   if (!existsSync(svgFilePath)) {
     console.error(`SVG file does not exist: ${svgFilePath}`);
@@ -18,6 +138,11 @@ export function renderSVG(svgFilePath: string): string {
   // 直接嵌入 SVG XML 到 HTML 以启用交互功能
   let svgContent = readFileSync(svgFilePath, { encoding: "utf-8" });
 
+  // 暗色主题跟随 VitePress 的外观切换，而不是浏览器的 prefers-color-scheme
+  if (darkModeSelector) {
+    svgContent = applyDarkModeSelector(svgContent, darkModeSelector);
+  }
+
   // 替换 <style> 标签为 <svg:style> 以避免 Vue 错误
   svgContent = svgContent.replace(/<style/gi, "<svg:style");
   svgContent = svgContent.replace(/<\/style>/gi, "</svg:style>");
@@ -29,6 +154,9 @@ export function renderSVG(svgFilePath: string): string {
   // 移除 XML 处理指令（如果存在）
   svgContent = svgContent.replace(/<\?xml[^>]*\?>/gi, "");
 
+  // 为根 SVG 元素添加无障碍名称和描述
+  svgContent = svgContent.replace(/<svg\b/i, `<svg role="img"${getLabelAttributes("aria-label", alt, describedBy)}`);
+
   return `<div class="d2-diagram">${svgContent}</div>`;
 }
 
@@ -36,9 +164,11 @@ export function renderSVG(svgFilePath: string): string {
  * 渲染图像内容
  * @param imageFilePath 图像文件路径
  * @param fileType 文件类型
+ * @param alt 图像的替代文本
+ * @param describedBy 图表文本描述元素的 ID
  * @returns 渲染的图像 HTML
  */
-export function renderImage(imageFilePath: string, fileType: FileType): string {
+export function renderImage(imageFilePath: string, fileType: FileType, alt: string = DEFAULT_ALT, describedBy?: string): string {
   // 检查文件是否存在
   if (!existsSync(imageFilePath)) {
     console.error(`Image file does not exist: ${imageFilePath}`);
@@ -65,22 +195,619 @@ export function renderImage(imageFilePath: string, fileType: FileType): string {
   // 创建 base64 格式的图像数据 URI
   const imageContent = readFileSync(imageFilePath, { encoding: "base64" });
   const dataUri = `data:${mediaType};base64,${imageContent}`;
-  const imageHtml = `<img src="${dataUri}" class="d2-diagram" alt="D2 Diagram" />`;
+  const imageHtml = `<img src="${dataUri}" class="d2-diagram"${getLabelAttributes("alt", alt, describedBy)} />`;
 
   return imageHtml;
 }
 
 /**
- * 根据文件类型选择渲染方式
+ * 渲染静态资源引用
+ * SVG 使用 <object> 引用以保留交互功能（链接、提示和动画），其他文件类型使用 <img> 引用。
+ * @param imageFilePath 图像文件路径
+ * @param fileType 文件类型
+ * @param alt 图像的替代文本
+ * @param describedBy 图表文本描述元素的 ID
+ * @returns 渲染的资源引用 HTML
+ */
+export function renderAsset(imageFilePath: string, fileType: FileType, alt: string = DEFAULT_ALT, describedBy?: string): string {
+  // 检查文件是否存在
+  if (!existsSync(imageFilePath)) {
+    console.error(`Image file does not exist: ${imageFilePath}`);
+    throw new Error(`Image file does not exist: ${imageFilePath}`);
+  }
+
+  const url = getAssetUrl(imageFilePath);
+  if (fileType === FileType.SVG) {
+    return `<object data="${url}" type="image/svg+xml" class="d2-diagram" role="img"${getLabelAttributes("aria-label", alt, describedBy)}></object>`;
+  }
+  return `<img src="${url}" class="d2-diagram"${getLabelAttributes("alt", alt, describedBy)} />`;
+}
+
+// 是否已提示静态资源输出不可用
+let assetWarningShown = false;
+
+/**
+ * 根据文件类型和输出方式选择渲染方式
  * @param filePath 图像文件路径
  * @param fileType 文件类型
+ * @param config 配置对象
+ * @param describedBy 图表文本描述元素的 ID
  * @returns 渲染的 HTML 字符串
  */
-export function renderOutput(filePath: string, fileType: FileType): string {
+export function renderOutput(filePath: string, fileType: FileType, config: Config = {}, describedBy?: string): string {
+  // BASE64_SVG 本身就是内联格式，不作为静态资源输出
+  if (config.output === OutputMode.ASSET && fileType !== FileType.BASE64_SVG) {
+    if (isAssetOutputAvailable()) {
+      return renderAsset(filePath, fileType, getAltText(config), describedBy);
+    }
+    if (!assetWarningShown) {
+      assetWarningShown = true;
+      console.warn("D2 asset output requires the d2VitePlugin() Vite plugin, falling back to inline output.");
+    }
+  }
+
   if (fileType === FileType.SVG) {
-    return renderSVG(filePath);
+    return renderSVG(filePath, getDarkModeSelector(config), getAltText(config), describedBy);
   } else {
-    return renderImage(filePath, fileType);
+    return renderImage(filePath, fileType, getAltText(config), describedBy);
+  }
+}
+
+/**
+ * 获取需要分别生成亮色和暗色图像时使用的配置
+ * 内联 SVG 通过改写 d2 的暗色主题样式切换主题，只需生成一次；
+ * 其他文件类型和静态资源无法读取页面的暗色模式，需要生成两张图像并通过 CSS 切换。
+ * @param config 配置对象
+ * @returns 亮色和暗色图像的配置，不需要分别生成时返回 null
+ */
+function getThemeVariants(config: Config): { light: Config; dark: Config } | null {
+  if (config.darkTheme == null || !getDarkModeSelector(config)) {
+    return null;
+  }
+
+  const fileType = config.stdoutFormat ?? FileType.SVG;
+  const assetOutput = config.output === OutputMode.ASSET && fileType !== FileType.BASE64_SVG && isAssetOutputAvailable();
+  if (fileType === FileType.SVG && !assetOutput) {
+    return null;
+  }
+
+  // 暗色图像以暗色主题作为主题渲染，因此使用暗色主题的颜色覆盖
+  return {
+    light: { ...config, darkTheme: undefined, darkThemeOverrides: undefined },
+    dark: { ...config, theme: config.darkTheme, darkTheme: undefined, themeOverrides: config.darkThemeOverrides, darkThemeOverrides: undefined },
+  };
+}
+
+/**
+ * 渲染亮色和暗色两张图像，并根据暗色模式选择器通过 CSS 切换显示
+ * 样式放在图表内的 <svg> 中，因此不依赖站点的主题样式。
+ * @param light 亮色图像
+ * @param dark 暗色图像
+ * @param config 配置对象
+ * @param describedBy 图表文本描述元素的 ID
+ * @returns 渲染的 HTML 字符串
+ */
+export function renderThemedOutput(light: DiagramResult, dark: DiagramResult, config: Config = {}, describedBy?: string): string {
+  const selector = getDarkModeSelector(config);
+  const style =
+    `.d2-theme-dark{display:none}` +
+    `${selector} .d2-theme-light{display:none}` +
+    `${selector} .d2-theme-dark{display:block}`;
+
+  return [
+    `<div class="d2-themed">`,
+    `<svg width="0" height="0" style="position:absolute" aria-hidden="true"><svg:style>${style}</svg:style></svg>`,
+    `<div class="d2-theme-light">${renderOutput(light.imageFilePath, light.fileType, config, describedBy)}</div>`,
+    `<div class="d2-theme-dark">${renderOutput(dark.imageFilePath, dark.fileType, config, describedBy)}</div>`,
+    `</div>`,
+  ].join("");
+}
+
+/**
+ * 渲染按图板分开的 composition，包括图板标签、上一个/下一个按钮和每个图板的面板
+ * 切换图板和 URL 哈希由客户端的 enableD2Boards() 处理，未启用时只显示第一个图板。
+ * @param boards 图板
+ * @param panels 每个图板渲染的 HTML
+ * @param id 图表 ID，图板面板的 ID 为 "<图表 ID>-<图板路径>"，可用作 URL 哈希
+ * @returns 渲染的 HTML 字符串
+ */
+export function renderBoards(boards: D2Board[], panels: string[], id: string): string {
+  const panelIds = boards.map((board) => `${id}-${(board.target || "root").replace(/[^\w.-]+/g, "-")}`);
+
+  const tabs = boards
+    .map(
+      (board, i) =>
+        `<button type="button" class="d2-boards-tab" role="tab" id="${panelIds[i]}-tab" aria-controls="${panelIds[i]}" aria-selected="${i === 0}">${escapeHtml(board.name)}</button>`,
+    )
+    .join("");
+  const content = panels
+    .map(
+      (panel, i) =>
+        `<div class="d2-board" role="tabpanel" id="${panelIds[i]}" aria-labelledby="${panelIds[i]}-tab"${i === 0 ? "" : " hidden"}>${panel}</div>`,
+    )
+    .join("");
+
+  return [
+    `<div class="d2-boards" id="${id}">`,
+    `<div class="d2-boards-nav">`,
+    `<button type="button" class="d2-boards-prev" aria-label="Previous board" disabled>‹</button>`,
+    `<div class="d2-boards-tabs" role="tablist">${tabs}</div>`,
+    `<button type="button" class="d2-boards-next" aria-label="Next board"${boards.length > 1 ? "" : " disabled"}>›</button>`,
+    `</div>`,
+    content,
+    `</div>`,
+  ].join("");
+}
+
+/**
+ * 并排渲染同一图表的多个图板，每个图板上方显示图板名称
+ * @param boards 图板
+ * @param panels 每个图板渲染的 HTML
+ * @returns 渲染的 HTML 字符串
+ */
+export function renderTargets(boards: D2Board[], panels: string[]): string {
+  const content = boards
+    .map(
+      (board, i) =>
+        `<div class="d2-target" style="flex: 1 1 0; min-width: 240px">` +
+        `<div class="d2-target-name" style="margin-bottom: 8px; font-size: 14px; font-weight: 500; color: var(--vp-c-text-2)">${escapeHtml(board.name)}</div>` +
+        `${panels[i]}</div>`,
+    )
+    .join("");
+  return `<div class="d2-targets" style="display: flex; flex-wrap: wrap; gap: 16px; align-items: flex-start">${content}</div>`;
+}
+
+/**
+ * 将图表包裹在 <figure> 中，并添加可选的标题和供屏幕阅读器使用的文本描述
+ * 宽度、对齐方式、CSS 类和提示标题应用在 <figure> 上。
+ * @param html 图表 HTML
+ * @param config 配置对象
+ * @param description 图表的文本描述
+ * @param descriptionId 文本描述元素的 ID
+ * @returns 渲染的 HTML 字符串
+ */
+export function renderFigure(html: string, config: Config, description: string = "", descriptionId: string = ""): string {
+  const { title, width, align, className, caption } = config;
+
+  const styles = ["margin: 16px 0"];
+  if (width) {
+    styles.push(`width: ${/^\d+(\.\d+)?$/.test(width) ? `${width}px` : width}`, "max-width: 100%");
+  }
+  if (align) {
+    styles.push(`text-align: ${align}`);
+  }
+  if (align === "center") {
+    styles.push("margin-left: auto", "margin-right: auto");
+  } else if (align === "right") {
+    styles.push("margin-left: auto");
+  }
+
+  const classes = ["d2-figure", className].filter(Boolean).join(" ");
+  const attributes = [
+    `class="${escapeHtml(classes)}"`,
+    title ? `title="${escapeHtml(title)}"` : "",
+    `style="${escapeHtml(styles.join("; "))}"`,
+  ].filter(Boolean);
+
+  return [
+    `<figure ${attributes.join(" ")}>`,
+    html,
+    description ? `<div class="d2-description" id="${descriptionId}" style="${VISUALLY_HIDDEN_STYLE}">${escapeHtml(description)}</div>` : "",
+    caption
+      ? `<figcaption class="d2-caption" style="margin-top: 8px; font-size: 14px; text-align: center; color: var(--vp-c-text-2)">${escapeHtml(caption)}</figcaption>`
+      : "",
+    `</figure>`,
+  ].join("");
+}
+
+// 图表和源代码切换的样式，通过单选按钮实现，不需要客户端脚本
+const SOURCE_TOGGLE_STYLE =
+  `.d2-source-toggle>input{position:absolute;opacity:0;pointer-events:none}` +
+  `.d2-source-toggle>label{display:inline-block;padding:4px 12px;border-bottom:2px solid transparent;color:var(--vp-c-text-2);font-size:14px;font-weight:500;cursor:pointer}` +
+  `.d2-source-toggle>input:checked+label{border-bottom-color:var(--vp-c-brand-1);color:var(--vp-c-text-1)}` +
+  `.d2-source-toggle>input:focus-visible+label{outline:1px solid var(--vp-c-brand-1)}` +
+  `.d2-source-toggle-diagram:not(:checked)~.d2-source-panel-diagram,.d2-source-toggle-source:not(:checked)~.d2-source-panel-source{display:none}`;
+
+/**
+ * 渲染图表和源代码的切换标签
+ * @param diagramHtml 图表 HTML
+ * @param sourceHtml 源代码 HTML（VitePress 高亮的代码块，包含复制按钮）
+ * @param id 切换组件 ID，在页面中唯一
+ * @returns 渲染的 HTML 字符串
+ */
+export function renderSourceToggle(diagramHtml: string, sourceHtml: string, id: string): string {
+  return [
+    `<div class="d2-source-toggle" id="${id}">`,
+    `<svg width="0" height="0" style="position:absolute" aria-hidden="true"><svg:style>${SOURCE_TOGGLE_STYLE}</svg:style></svg>`,
+    `<input type="radio" name="${id}" id="${id}-diagram" class="d2-source-toggle-diagram" checked>`,
+    `<label for="${id}-diagram">Diagram</label>`,
+    `<input type="radio" name="${id}" id="${id}-source" class="d2-source-toggle-source">`,
+    `<label for="${id}-source">Source</label>`,
+    `<div class="d2-source-panel-diagram">${diagramHtml}</div>`,
+    `<div class="d2-source-panel-source">${sourceHtml}</div>`,
+    `</div>`,
+  ].join("");
+}
+
+/**
+ * 启用 showSource 时为图表添加源代码切换标签
+ * @param html 图表 HTML
+ * @param config 配置对象
+ * @param sourceHtml 源代码 HTML
+ * @param source 代码块位置
+ * @returns 渲染的 HTML 字符串
+ */
+function withSourceToggle(html: string, config: Config, sourceHtml: string, source: DiagramSource): string {
+  if (!config.showSource) {
+    return html;
+  }
+  return renderSourceToggle(html, sourceHtml, `d2-source-${getShortHash(`${source.page}:${source.line}:${sourceHtml}`)}`);
+}
+
+/**
+ * 图表的渲染计划：需要生成的图像，以及由生成结果组合 HTML 的方式
+ */
+interface DiagramPlan {
+  /** 每张图像的配置 */
+  configs: Config[];
+  /** 由每张图像的生成结果（与 configs 顺序一致）组合 HTML */
+  render: (results: DiagramResult[]) => string;
+}
+
+/**
+ * 获取图表的渲染计划
+ * 指定多个图板 (targets) 或 composition 按图板分开渲染时每个图板生成一张图像，需要时每张图像再分别生成亮色和暗色版本。
+ * @param code D2 代码
+ * @param config 配置对象
+ * @param source 代码块位置，计入元素 ID，同一页面多次嵌入相同的图表时 ID 不重复
+ * @returns 渲染计划
+ */
+function planDiagram(code: string, config: Config, source: DiagramSource): DiagramPlan {
+  let boards: D2Board[] | null = null;
+  if (config.targets && config.targets.length > 0) {
+    // 指定的图板使用代码中的图板名称，不存在的图板已作为配置问题报告，不渲染
+    boards = resolveTargets(config.targets, removeCommentsFromD2(code)).boards;
+    if (boards.length === 0) {
+      throw new Error(`None of the targets exist in the diagram: ${config.targets.map((target) => `"${target}"`).join(", ")}`);
+    }
+  } else if (config.composition === "boards" && hasComposition(code)) {
+    const cleanedCode = removeCommentsFromD2(code);
+    boards = findBoards(cleanedCode);
+    if (hasRootBoardContent(cleanedCode)) {
+      boards.unshift({ target: "", name: "root" });
+    }
+  }
+  // 指定的多个图板默认并排显示，composition 为 "boards" 时显示为标签
+  const sideBySide = boards != null && config.targets != null && config.composition !== "boards";
+
+  // 每个图板（或整个图表）的配置，以及需要时的亮色和暗色版本
+  // 每张图像只包含一个图板（通配符已展开为各个图板），不需要动画
+  const targets = boards
+    ? boards.map((board) => ({
+        ...config,
+        target: board.target,
+        targets: undefined,
+        animateInterval: undefined,
+      }))
+    : [config];
+  const variants = targets.map((target) => getThemeVariants(target));
+  const configs = targets.flatMap((target, i) => (variants[i] ? [variants[i]!.light, variants[i]!.dark] : [target]));
+
+  // 供屏幕阅读器使用的文本描述，默认根据代码中的形状和连接生成
+  const description =
+    config.description === false ? "" : typeof config.description === "string" ? config.description : describeDiagram(removeCommentsFromD2(code));
+  const location = `${source.page}:${source.line}`;
+  const descriptionId = description ? `d2-description-${getShortHash(`${location}:${description} ${code}`)}` : undefined;
+
+  const render = (results: DiagramResult[]): string => {
+    let index = 0;
+    const panels = targets.map((_, i) => {
+      if (variants[i]) {
+        const light = results[index++];
+        const dark = results[index++];
+        return renderThemedOutput(light, dark, config, descriptionId);
+      }
+      const result = results[index++];
+      return renderOutput(result.imageFilePath, result.fileType, config, descriptionId);
+    });
+
+    let html = panels[0];
+    if (boards && sideBySide) {
+      html = renderTargets(boards, panels);
+    } else if (boards) {
+      html = renderBoards(boards, panels, `d2-${getShortHash(`${location}:${config.targets ? `${code} ${config.targets}` : code}`)}`);
+    }
+    return renderFigure(html, config, description, descriptionId);
+  };
+
+  return { configs, render };
+}
+
+/**
+ * 生成并渲染图表
+ * @param code D2 代码
+ * @param config 配置对象
+ * @param source 代码块位置
+ * @returns 渲染的 HTML 字符串
+ */
+function renderDiagram(code: string, config: Config, source: DiagramSource): string {
+  const plan = planDiagram(code, config, source);
+  return plan.render(generateDiagrams(code, plan.configs, source));
+}
+
+/**
+ * 通过渲染队列异步生成并渲染图表
+ * @param code D2 代码
+ * @param config 配置对象
+ * @param source 代码块位置
+ * @returns 渲染的 HTML 字符串
+ */
+export async function renderDiagramAsync(code: string, config: Config, source: DiagramSource): Promise<string> {
+  const plan = planDiagram(code, config, source);
+  return plan.render(await generateDiagramsAsync(code, plan.configs, source));
+}
+
+/**
+ * 渲染已缓存的图表
+ * @param code D2 代码
+ * @param config 配置对象
+ * @param source 代码块位置
+ * @returns 所有图像都已缓存时返回渲染的 HTML 字符串，否则返回 null
+ */
+function renderCachedDiagram(code: string, config: Config, source: DiagramSource): string | null {
+  const plan = planDiagram(code, config, source);
+  const results: DiagramResult[] = [];
+  for (const imageConfig of plan.configs) {
+    const cached = findCachedDiagram(code, imageConfig, source);
+    if (!cached) {
+      return null;
+    }
+    results.push(cached);
+  }
+  return plan.render(results);
+}
+
+/**
+ * renderD2 的选项：默认配置，以及图表代码所在的文件
+ */
+export interface RenderD2Options extends Config {
+  /** 图表代码所在文件的路径，未设置 d2Cwd 时 D2 导入相对于该文件解析 */
+  file?: string;
+}
+
+/**
+ * renderD2 的结果
+ */
+export interface RenderD2Result {
+  /** 图表 HTML，与 Markdown 代码块渲染的 HTML 相同 */
+  html: string;
+  /** SVG 内容，输出 PNG 或 GIF 时为 null；生成多张图像（图板或亮色和暗色版本）时为第一张图像 */
+  svg: string | null;
+  /** 生成的图像文件路径，生成多张图像时为第一张图像 */
+  filePath: string;
+  /** 合并代码中的配置块和 d2-config 后最终使用的配置 */
+  config: Config;
+}
+
+/**
+ * 在 Markdown 之外渲染 D2 图表，例如在 Vue 组件、数据加载器和脚本中
+ * 与代码块使用相同的配置解析、缓存和渲染方式，生成失败时抛出错误（d2 的错误为 D2CommandError）。
+ * @param source D2 代码，可以包含顶部的配置块和 vars.d2-config
+ * @param options 默认配置，以及图表代码所在的文件
+ * @returns 图表 HTML、SVG 内容、图像文件路径和最终使用的配置
+ */
+export async function renderD2(source: string, options: RenderD2Options = {}): Promise<RenderD2Result> {
+  const { file, ...defaultConfig } = options;
+  const { config, code } = parseConfig(source.trim(), defaultConfig);
+  const diagramSource: DiagramSource = file ? { page: path.relative(process.cwd(), file), file: path.resolve(file) } : {};
+
+  const plan = planDiagram(code, config, diagramSource);
+  const results = await generateDiagramsAsync(code, plan.configs, diagramSource);
+  const html = plan.render(results);
+
+  const [{ imageFilePath, fileType }] = results;
+  const isSvg = fileType === FileType.SVG || fileType === FileType.BASE64_SVG;
+  return { html, svg: isSvg ? readFileSync(imageFilePath, "utf-8") : null, filePath: imageFilePath, config };
+}
+
+/**
+ * 转义 HTML 特殊字符
+ * @param text 文本
+ * @returns 转义后的文本
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * 格式化代码块位置，例如 "guide/index.md:12"
+ * @param source 代码块位置
+ * @returns 代码块位置字符串，页面未知时返回空字符串
+ */
+function formatSource(source: DiagramSource): string {
+  if (!source.page) {
+    return "";
+  }
+  return source.line != null ? `${source.page}:${source.line}` : source.page;
+}
+
+/**
+ * 获取错误信息，d2 命令失败时为 d2 的错误输出
+ * @param error 错误
+ * @returns 错误信息
+ */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof D2CommandError) {
+    return error.stderr.trim();
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 渲染图表生成失败时的错误面板
+ * 显示 d2 的错误输出、页面位置，以及高亮出错行列的图表代码。
+ * @param error 错误
+ * @param code D2 代码
+ * @param source 代码块位置
+ * @returns 错误面板 HTML
+ */
+export function renderErrorPanel(error: unknown, code: string, source: DiagramSource): string {
+  const message = getErrorMessage(error);
+
+  // 从 d2 错误中提取图表代码中的出错位置，例如 "-:2:3: ..."；导入文件和 prelude 中的位置以文件名开头，不高亮
+  const positions = new Map<number, number>();
+  for (const match of message.matchAll(/(?<![\w.\\/-])-:\s?(\d+):(\d+):/g)) {
+    const line = Number(match[1]);
+    if (!positions.has(line)) {
+      positions.set(line, Number(match[2]));
+    }
+  }
+
+  const lines = code.split("\n");
+  const gutterWidth = String(lines.length).length;
+  const sourceHtml = lines
+    .map((line, i) => {
+      const gutter = String(i + 1).padStart(gutterWidth);
+      const column = positions.get(i + 1);
+      if (column == null) {
+        return `<span class="d2-error-line">${gutter} | ${escapeHtml(line)}</span>`;
+      }
+
+      // 高亮出错的列，并在下一行用 ^ 标出
+      const index = Math.min(Math.max(column - 1, 0), line.length);
+      const highlighted =
+        escapeHtml(line.slice(0, index)) + `<mark>${escapeHtml(line.slice(index, index + 1) || " ")}</mark>` + escapeHtml(line.slice(index + 1));
+      const caret = `${" ".repeat(gutterWidth)} | ${" ".repeat(index)}^`;
+      return `<span class="d2-error-line d2-error-highlight" style="color: var(--vp-c-danger-1)">${gutter} | ${highlighted}\n${caret}</span>`;
+    })
+    .join("\n");
+
+  const location = formatSource(source);
+  return [
+    `<div class="d2-error" role="alert" v-pre style="border: 1px solid var(--vp-c-danger-1); border-radius: 8px; padding: 16px; margin: 16px 0; background: var(--vp-c-danger-soft)">`,
+    `<p class="d2-error-title" style="margin: 0; font-weight: 600">D2 diagram failed to render</p>`,
+    location ? `<p class="d2-error-location" style="margin: 4px 0 0; font-size: 14px"><code>${escapeHtml(location)}</code></p>` : "",
+    `<pre class="d2-error-message" style="white-space: pre-wrap; margin: 12px 0 0">${escapeHtml(message)}</pre>`,
+    `<pre class="d2-error-source" style="overflow-x: auto; margin: 12px 0 0"><code>${sourceHtml}</code></pre>`,
+    `</div>`,
+  ].join("");
+}
+
+/**
+ * 根据 onError 配置处理图表生成失败
+ * @param error 错误
+ * @param config 配置对象
+ * @param code D2 代码
+ * @param source 代码块位置
+ * @param fallback 原始代码块 HTML
+ * @returns 替代图表输出的 HTML
+ */
+function handleRenderError(error: unknown, config: Config, code: string, source: DiagramSource, fallback: string): string {
+  recordDiagramFailure(source, getErrorMessage(error), config);
+
+  switch (config.onError) {
+    case "throw": {
+      const location = formatSource(source);
+      throw new Error(`Failed to render D2 diagram${location ? ` in ${location}` : ""}:\n${getErrorMessage(error)}`);
+    }
+    case "panel":
+      return renderErrorPanel(error, code, source);
+    default:
+      // 返回原始代码块
+      return fallback;
+  }
+}
+
+/**
+ * 获取代码块在页面中的位置
+ * @param token Markdown token
+ * @param env Markdown 渲染环境（VitePress 提供 relativePath 和 path）
+ * @returns 代码块位置
+ */
+function getDiagramSource(token: any, env: any): DiagramSource {
+  // 代码片段 (<<< ./diagram.d2) 的内容来自外部文件，导入相对于该文件解析
+  return {
+    page: env?.relativePath ?? env?.path,
+    line: token.map ? token.map[0] + 1 : undefined,
+    file: getSnippetFile(token) ?? env?.path,
+  };
+}
+
+// 每个代码块上一次渲染时输出的配置问题，键为 "页面:行号"，避免同一代码块多次渲染（客户端和 SSR）时重复输出
+const reportedDiagnostics = new Map<string, Set<string>>();
+
+/**
+ * 检查代码块配置块、d2-config 和属性中未知的名称和无效的值，以及不存在的 targets
+ * 每次渲染图表前调用：清除该图表之前记录的失败，输出配置中的问题，严格模式下记录到构建报告中。
+ * @param token Markdown token
+ * @param content D2 内容
+ * @param code 解析后的 D2 代码
+ * @param config 解析后的配置
+ * @param source 代码块位置
+ */
+function checkDiagramConfig(token: any, content: string, code: string, config: Config, source: DiagramSource) {
+  clearDiagramFailures(source);
+
+  const diagnostics = [...validateDiagramConfig(content, token.info, token.attrs), ...validateTargets(code, config)];
+  const snippetFile = getSnippetFile(token);
+  // 只保留本次渲染中仍然存在的问题，修复后再次出现的问题会重新输出
+  const diagramKey = `${source.page}:${source.line}`;
+  const previous = reportedDiagnostics.get(diagramKey);
+  const reported = new Set<string>();
+  reportedDiagnostics.set(diagramKey, reported);
+
+  for (const diagnostic of diagnostics) {
+    // 代码片段的内容来自外部文件，问题位置为该文件中的行号
+    const location: DiagramSource =
+      snippetFile && diagnostic.line > 0
+        ? { page: path.relative(process.cwd(), snippetFile), line: diagnostic.line }
+        : { page: source.page, line: source.line != null ? source.line + diagnostic.line : undefined };
+
+    if (config.strict) {
+      recordDiagramFailure(source, diagnostic.message, config, location);
+    }
+
+    const message = `Invalid D2 config in ${formatSource(location) || "<unknown>"}: ${diagnostic.message}`;
+    if (!previous?.has(message) && !reported.has(message)) {
+      console.warn(message);
+    }
+    reported.add(message);
+  }
+}
+
+/**
+ * 异步渲染代码块中的图表，每次调用都重新读取代码片段和导入文件
+ * @param token Markdown token
+ * @param defaultConfig 默认 D2 插件配置
+ * @param source 代码块位置
+ * @param fallback 原始代码块 HTML，生成失败时返回，启用 showSource 时作为源代码显示
+ * @returns 图表 HTML 和图表依赖的外部文件
+ */
+async function renderFenceAsync(
+  token: any,
+  defaultConfig: Config,
+  source: DiagramSource,
+  fallback: string,
+): Promise<RenderedDiagram> {
+  const snippetFile = getSnippetFile(token);
+  const dependencies = snippetFile ? [snippetFile] : [];
+
+  const content = readDiagramContent(token);
+  if (!content) {
+    return { html: fallback, dependencies };
+  }
+
+  // 页面未修改时 VitePress 使用缓存的页面，依赖的文件修改后只重新渲染图表，因此在此重新检查配置
+  const { config, code } = parseConfig(content, defaultConfig, parseFenceAttributes(token.info, token.attrs));
+  checkDiagramConfig(token, content, code, config, source);
+  try {
+    dependencies.push(...collectImportedFiles(code, getDiagramBaseDir(config, source)), ...getPreludeFiles(config));
+
+    const html = await renderDiagramAsync(code, config, source);
+    return { html: withSourceToggle(html, config, fallback, source), dependencies };
+  } catch (error) {
+    console.error("Error rendering D2 diagram:", error);
+    return { html: handleRenderError(error, config, code, source, fallback), dependencies };
   }
 }
 
@@ -93,17 +820,61 @@ export function d2(md: any, defaultConfig: Config = {}) {
   // 存储原始 fence 以便在没有 D2 图表时返回
   const fence = md.renderer.rules.fence.bind(md.renderer.rules);
 
+  // 检查 d2 是否可以运行以及已安装的 d2 版本；WASM 后端不需要 d2，提前开始加载模块，加载失败时在渲染图表时报告
+  if (defaultConfig.backend === Backend.WASM) {
+    getBackend(defaultConfig)
+      .prepare(defaultConfig)
+      .catch(() => {});
+  } else {
+    validateD2Executable(defaultConfig);
+    if (defaultConfig.minD2Version) {
+      assertD2Version(defaultConfig.minD2Version, defaultConfig);
+    }
+  }
+
+  configureBuildReport(defaultConfig);
+
+  // 检查插件配置，严格模式下存在问题时直接失败
+  const optionErrors = validatePluginOptions(defaultConfig as Record<string, unknown>);
+  if (optionErrors.length > 0) {
+    if (defaultConfig.strict) {
+      throw new Error(`Invalid D2 plugin options:\n${optionErrors.map((error) => `  ${error}`).join("\n")}`);
+    }
+    optionErrors.forEach((error) => console.warn(`Invalid D2 plugin options: ${error}`));
+  }
+
+  // 设置渲染队列的并发数
+  if (defaultConfig.concurrency != null) {
+    renderQueue.setConcurrency(defaultConfig.concurrency);
+  }
+
+  // 解析 @[d2](./diagram.d2){attrs} 引入语法
+  md.block.ruler.before("fence", "d2_include", createIncludeRule(defaultConfig), {
+    alt: ["paragraph", "reference", "blockquote", "list"],
+  });
+
   md.renderer.rules.fence = (...args: any[]) => {
-    const [tokens, idx] = args;
+    const [tokens, idx, , env] = args;
     const token = tokens[idx];
     const info = token.info.trim();
 
-    // 检查是否为 D2 代码块，以及是否需要转换为图像
-    if (!info.startsWith("d2") || (defaultConfig.onlyConvertMarkedImage && !/:image\b/.test(info))) {
+    // 检查是否为 D2 代码块，以及是否需要转换为图像；引入的 .d2 文件总是转换
+    const marked = /:image\b/.test(info) || token.meta?.d2Include === true;
+    if (!info.startsWith("d2") || (defaultConfig.onlyConvertMarkedImage && !marked)) {
       return fence(...args);
     }
     // console.debug("token info:", token.info);
 
+    // 引入的文件不存在时按渲染失败处理，以便 onError 和 strict 生效
+    if (token.meta?.d2Include === true && !existsSync(token.src[0])) {
+      const { config } = parseConfig("", defaultConfig, parseFenceAttributes(token.info, token.attrs));
+      const source = getDiagramSource(token, env);
+      clearDiagramFailures(source);
+      const error = new Error(`D2 file not found: ${path.relative(process.cwd(), token.src[0])}`);
+      console.error("Error rendering D2 diagram:", error.message);
+      return handleRenderError(error, config, "", source, fence(...args));
+    }
+
     // 读取 D2 内容（可能来自代码片段文件）
     const content = readDiagramContent(token);
     if (!content) {
@@ -111,19 +882,35 @@ export function d2(md: any, defaultConfig: Config = {}) {
     }
 
     // 解析所有配置源
-    const { config, code } = parseConfig(content, defaultConfig);
+    const { config, code } = parseConfig(content, defaultConfig, parseFenceAttributes(token.info, token.attrs));
+    const source = getDiagramSource(token, env);
+    checkDiagramConfig(token, content, code, config, source);
 
     try {
-      // 生成图表
-      const result = generateDiagram(code, config);
-      // 根据文件类型自动选择渲染方式
-      const imageHtml = renderOutput(result.imageFilePath, result.fileType);
-      // 返回渲染的图表图像 HTML
-      return imageHtml;
+      // 启用异步渲染管线时，未命中缓存的图表进入渲染队列并先输出占位符
+      if (isRenderPipelineEnabled()) {
+        // 不依赖外部文件的图表命中缓存时直接输出；依赖外部文件的图表需要在文件修改后重新渲染
+        const dependent =
+          getSnippetFile(token) != null ||
+          getPreludeFiles(config).length > 0 ||
+          collectImportedFiles(code, getDiagramBaseDir(config, source)).length > 0;
+        const cached = dependent ? null : renderCachedDiagram(code, config, source);
+        if (cached) {
+          return withSourceToggle(cached, config, config.showSource ? fence(...args) : "", source);
+        }
+        const fallback = fence(...args);
+        return scheduleDiagram(JSON.stringify([source, config, code]), () =>
+          renderFenceAsync(token, defaultConfig, source, fallback),
+        );
+      }
+
+      // 生成图表，并根据文件类型自动选择渲染方式
+      const html = renderDiagram(code, config, source);
+      // 需要时添加源代码切换标签，源代码使用原始 fence 渲染
+      return withSourceToggle(html, config, config.showSource ? fence(...args) : "", source);
     } catch (error) {
       console.error("Error rendering D2 diagram:", error);
-      // 如果生成失败，返回原始代码块
-      return fence(...args);
+      return handleRenderError(error, config, code, source, fence(...args));
     }
   };
 }
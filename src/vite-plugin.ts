@@ -0,0 +1,198 @@
+import { readFileSync } from "fs";
+import path from "path";
+import type { Plugin, ViteDevServer } from "vite";
+import { enableRenderPipeline, hasDiagramPlaceholders, releasePageDiagrams, resolveDiagramPlaceholders } from "./pipeline.js";
+import { pruneCache } from "./cache-manifest.js";
+import { findAssetFile, getRegisteredAssets, setAssetBase } from "./assets.js";
+import { reportDiagramFailures, setBuildCommand } from "./build-report.js";
+
+// 开发服务器返回静态资源时使用的媒体类型
+const MEDIA_TYPES: Record<string, string> = {
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".gif": "image/gif",
+};
+
+/**
+ * 判断模块 ID 是否为 Markdown 页面
+ * @param id 模块 ID
+ * @returns 如果是 Markdown 页面则返回 true
+ */
+function isMarkdownPage(id: string): boolean {
+  return id.replace(/\?.*$/, "").endsWith(".md");
+}
+
+// 已包装 transform 的 VitePress 插件，客户端和 SSR 构建各有一个
+const wrappedPlugins = new WeakSet<Plugin>();
+
+// 是否已在构建结束时清理缓存并报告失败的图表
+// VitePress 依次运行客户端和 SSR 构建，第一个构建已转换所有页面，因此每个进程只处理一次。
+let buildFinished = false;
+
+/**
+ * 包装插件的 transform，在其输出上运行另一个转换
+ * @param plugin 被包装的插件
+ * @param transform 对输出代码的转换，返回 null 表示不修改
+ */
+function wrapTransform(plugin: Plugin, transform: (code: string, id: string) => Promise<string | null>) {
+  const hook = plugin.transform;
+  if (!hook || wrappedPlugins.has(plugin)) {
+    return;
+  }
+  wrappedPlugins.add(plugin);
+
+  const handler = typeof hook === "function" ? hook : hook.handler;
+  const wrapped: typeof handler = async function (this, code, id, options) {
+    const result = await handler.call(this, code, id, options);
+    const output = typeof result === "string" ? result : result?.code;
+    if (output == null) {
+      return result;
+    }
+    const transformed = await transform(output, id);
+    if (transformed == null) {
+      return result;
+    }
+    return typeof result === "string" ? transformed : { ...result, code: transformed };
+  };
+  plugin.transform = typeof hook === "function" ? wrapped : { ...hook, handler: wrapped };
+}
+
+/**
+ * D2 配套 Vite 插件，启用异步并行渲染管线
+ * Markdown 插件在解析时收集所有 D2 代码块并输出占位符，
+ * 该插件在 VitePress 将 Markdown 转换为 Vue 组件之后、Vue 编译模板之前等待渲染完成并替换占位符。
+ * 开发模式下监听代码片段和 D2 导入文件，修改后重新加载依赖它们的页面。
+ * @returns Vite 插件
+ */
+export function d2VitePlugin(): Plugin {
+  let isBuild = false;
+  let base = "/";
+  let server: ViteDevServer | undefined;
+
+  // 图表依赖的外部文件，键为文件路径，值为使用该文件的页面
+  const dependentPages = new Map<string, Set<string>>();
+
+  /**
+   * 记录页面依赖的外部文件，并在开发模式下监听这些文件
+   * @param page 页面文件路径
+   * @param dependencies 页面中图表依赖的外部文件
+   */
+  function trackDependencies(page: string, dependencies: string[]) {
+    for (const pages of dependentPages.values()) {
+      pages.delete(page);
+    }
+    for (const dependency of dependencies) {
+      // 与 Vite 监听器报告的路径格式保持一致
+      const file = dependency.replace(/\\/g, "/");
+      let pages = dependentPages.get(file);
+      if (!pages) {
+        pages = new Set();
+        dependentPages.set(file, pages);
+        // 源目录之外的文件默认不被监听
+        server?.watcher.add(file);
+      }
+      pages.add(page);
+    }
+  }
+
+  /**
+   * 替换页面中的图表占位符
+   * @param code 页面内容
+   * @param id 模块 ID
+   * @returns 替换后的页面内容，不是包含占位符的 Markdown 页面时返回 null
+   */
+  async function resolvePage(code: string, id: string): Promise<string | null> {
+    if (!isMarkdownPage(id)) {
+      return null;
+    }
+    const page = id.replace(/\?.*$/, "");
+    if (!hasDiagramPlaceholders(code)) {
+      // 页面中的图表已全部删除；带查询参数的模块（例如页面的样式块）不是页面本身
+      if (page === id) {
+        releasePageDiagrams(page);
+      }
+      return null;
+    }
+
+    const { html, dependencies } = await resolveDiagramPlaceholders(code, page);
+    trackDependencies(page, dependencies);
+    return html;
+  }
+
+  return {
+    name: "vitepress-plugin-d2",
+
+    configResolved(config) {
+      isBuild = config.command === "build";
+      setBuildCommand(isBuild);
+      base = config.base;
+      enableRenderPipeline();
+      setAssetBase(base);
+
+      // 用户插件总是排在 VitePress 插件和 Vue 插件之后，而 Vue 编译模板时会移除占位符（HTML 注释），
+      // 因此在 VitePress 插件的输出（Vue 单文件组件）上替换占位符
+      const vitepress = config.plugins.find((plugin) => plugin.name === "vitepress");
+      if (vitepress) {
+        wrapTransform(vitepress, resolvePage);
+      }
+    },
+
+    configureServer(devServer) {
+      server = devServer;
+
+      // 开发模式下直接从缓存目录返回静态资源
+      devServer.middlewares.use((req, res, next) => {
+        const url = req.url?.replace(/[?#].*$/, "") ?? "";
+        const filePath = url.startsWith(base) ? findAssetFile(url.slice(base.length)) : undefined;
+        if (!filePath) {
+          return next();
+        }
+
+        res.setHeader("Content-Type", MEDIA_TYPES[path.extname(filePath)] ?? "application/octet-stream");
+        res.end(readFileSync(filePath));
+      });
+    },
+
+    async transform(code, id) {
+      // 没有 VitePress 插件时，替换之前的插件输出的 HTML 中的占位符；已替换的页面不再处理，以免释放其图表
+      if (!hasDiagramPlaceholders(code)) {
+        return null;
+      }
+      const html = await resolvePage(code, id);
+      return html == null ? null : { code: html, map: null };
+    },
+
+    handleHotUpdate(ctx) {
+      const pages = dependentPages.get(ctx.file);
+      if (!pages || pages.size === 0) {
+        return;
+      }
+
+      // D2 文件修改后使依赖它的页面失效，重新转换时重新渲染图表
+      for (const page of pages) {
+        const module = ctx.server.moduleGraph.getModuleById(page);
+        if (module) {
+          ctx.server.moduleGraph.invalidateModule(module);
+        }
+      }
+      ctx.server.ws.send({ type: "full-reload" });
+      return [];
+    },
+
+    generateBundle() {
+      // 将页面引用的图表作为静态资源输出
+      for (const [fileName, filePath] of getRegisteredAssets()) {
+        this.emitFile({ type: "asset", fileName, source: readFileSync(filePath) });
+      }
+    },
+
+    closeBundle() {
+      // 构建结束时所有页面都已渲染，清理未被引用的图表并报告失败的图表
+      if (isBuild && !buildFinished) {
+        buildFinished = true;
+        pruneCache();
+        reportDiagramFailures();
+      }
+    },
+  };
+}
@@ -0,0 +1,239 @@
+import fs from "fs";
+import { writeFile } from "fs/promises";
+import path from "path";
+import { Config, FileType, Layout } from "./config.js";
+import { D2Backend, RenderJob, RenderJobResult } from "./backend.js";
+
+// 可选依赖，模块名使用变量以免 TypeScript 和打包工具解析
+const WASM_MODULE = "@terrastruct/d2";
+
+// 输入在虚拟文件系统中的路径，导入的文件使用相对于该路径的位置
+const INPUT_PATH = "index.d2";
+
+/**
+ * 已加载的 d2 JS/WASM 引擎
+ */
+interface WasmEngine {
+  /** @terrastruct/d2 的 D2 实例 */
+  d2: any;
+  /** 引擎的 d2 版本 */
+  version: string;
+  /** 上一个调用完成时兑现，D2 实例同一时间只能处理一个调用 */
+  idle: Promise<unknown>;
+  /** 排队中和进行中的调用数量 */
+  pending: number;
+}
+
+// 加载中或已加载的引擎，整个进程只加载一次
+let engine: Promise<WasmEngine> | null = null;
+// 引擎加载完成后的 d2 版本
+let loadedVersion: string | null = null;
+
+/**
+ * 加载 @terrastruct/d2 并获取其 d2 版本
+ * 版本与 d2 --version 的格式一致（例如 "v0.7.0"），版本相同时与 CLI 后端共享缓存。
+ * @returns 已加载的引擎
+ */
+async function loadEngine(): Promise<WasmEngine> {
+  let module: any;
+  try {
+    module = await import(WASM_MODULE);
+  } catch (error) {
+    throw new Error(`The wasm backend requires the optional ${WASM_MODULE} package. Install it with "npm install -D ${WASM_MODULE}".`, {
+      cause: error,
+    });
+  }
+
+  const d2 = new module.D2();
+  await d2.ready;
+  // D2 实例在 worker 线程中运行 WASM，空闲时不阻止进程退出
+  d2.worker?.unref?.();
+
+  const loaded: WasmEngine = { d2, version: "", idle: Promise.resolve(), pending: 0 };
+  const version = typeof d2.version === "function" ? String(await call(loaded, () => d2.version())).trim() : WASM_MODULE;
+  loaded.version = /^\d/.test(version) ? `v${version}` : version;
+  return loaded;
+}
+
+/**
+ * 依次调用 D2 实例
+ * D2 实例只记录最后一个调用的回调，并发的调用会得到其他调用的结果，因此所有调用排队执行。
+ * @param engine 已加载的引擎
+ * @param task 调用 D2 实例的函数
+ * @returns 调用结果
+ */
+function call<T>(engine: WasmEngine, task: () => Promise<T>): Promise<T> {
+  const worker = engine.d2.worker;
+  if (engine.pending++ === 0) {
+    worker?.ref?.();
+  }
+
+  const result = engine.idle.then(task);
+  engine.idle = result
+    .catch(() => {})
+    .finally(() => {
+      if (--engine.pending === 0) {
+        worker?.unref?.();
+      }
+    });
+  return result;
+}
+
+/**
+ * 将 d2 的编译错误转换为与 d2 命令相同的错误输出
+ * 错误信息为 JSON 数组，例如 [{"range":"...","errmsg":"index.d2:2:4: maps must be terminated with }"}]
+ * @param message 错误信息
+ * @returns 错误输出，输入中的位置以 "-:" 开头
+ */
+function formatCompileError(message: string): string {
+  let lines = [message];
+  try {
+    const errors = JSON.parse(message);
+    if (Array.isArray(errors)) {
+      lines = errors.map((error) => String(error.errmsg ?? error));
+    }
+  } catch {
+    // 不是 JSON 时使用原始信息
+  }
+  return lines.map((line) => line.split(`${INPUT_PATH}:`).join("-:")).join("\n");
+}
+
+/**
+ * 检查 WASM 后端不支持的配置，存在时抛出错误
+ * @param job 渲染任务
+ */
+function assertSupported(job: RenderJob) {
+  const { config } = job;
+  const unsupported: string[] = [];
+
+  if (job.fileType !== FileType.SVG && job.fileType !== FileType.BASE64_SVG) {
+    unsupported.push(`stdoutFormat "${job.fileType}"`);
+  }
+  if (config.layout === Layout.TALA) {
+    unsupported.push(`layout "${config.layout}"`);
+  }
+  // d2 JS/WASM 构建没有这些选项，或者接受但忽略（字体）
+  const cliOnly: (keyof Config)[] = [
+    "elkAlgorithm",
+    "elkNodeNodeBetweenLayersSpacing",
+    "elkPadding",
+    "elkEdgeNodeBetweenLayersSpacing",
+    "elkNodeSelfLoop",
+    "dagreNodesep",
+    "dagreEdgesep",
+    "fontRegular",
+    "fontItalic",
+    "fontBold",
+    "fontSemiBold",
+    "omitVersion",
+    "d2ExtraArgs",
+  ];
+  unsupported.push(...cliOnly.filter((key) => config[key] != null));
+
+  if (unsupported.length > 0) {
+    throw new Error(`The wasm backend does not support ${unsupported.join(", ")}. Use the cli backend for this diagram.`);
+  }
+}
+
+/**
+ * 根据配置构建 d2.compile 的选项，与 buildArgs 生成的命令行参数对应
+ * @param config 配置对象
+ * @returns 编译选项
+ */
+function buildCompileOptions(config: Config): Record<string, unknown> {
+  const options: Record<string, unknown> = {
+    layout: config.layout,
+    sketch: config.sketch,
+    themeID: config.theme,
+    darkThemeID: config.darkTheme,
+    pad: config.pad,
+    center: config.center,
+    scale: config.scale,
+    forceAppendix: config.forceAppendix,
+    target: config.target,
+    animateInterval: config.animateInterval,
+    salt: config.salt,
+    noXMLTag: config.noXmlTag ?? config.stdoutFormat === FileType.SVG,
+  };
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value != null));
+}
+
+/**
+ * 构建虚拟文件系统：输入和导入的文件，导入路径相对于图表代码所在文件的目录
+ * @param job 渲染任务
+ * @returns 文件路径到内容的映射
+ */
+function buildFileSystem(job: RenderJob): Record<string, string> {
+  const files: Record<string, string> = { [INPUT_PATH]: job.input };
+  for (const filePath of job.imports) {
+    const relativePath = path.relative(job.executable.cwd, filePath).split(path.sep).join("/");
+    files[relativePath] = fs.readFileSync(filePath, "utf-8");
+  }
+  return files;
+}
+
+/**
+ * 使用 d2 JS/WASM 构建在进程内渲染的后端，只支持 SVG 输出
+ * 没有同步渲染，需要启用 Vite 插件的异步渲染管线，或使用 renderD2 和命令行工具。
+ */
+export const wasmBackend: D2Backend = {
+  getVersion() {
+    if (loadedVersion == null) {
+      throw new Error(`The wasm backend is not loaded yet. Add d2VitePlugin() to the Vite plugins to render diagrams with it.`);
+    }
+    return loadedVersion;
+  },
+
+  isReady: () => loadedVersion != null,
+
+  async prepare() {
+    engine ??= loadEngine();
+    loadedVersion = (await engine).version;
+  },
+
+  async render(job): Promise<RenderJobResult> {
+    assertSupported(job);
+    const loaded = await engine!;
+    const { d2 } = loaded;
+
+    let svg: string;
+    try {
+      const request = { fs: buildFileSystem(job), inputPath: INPUT_PATH, options: buildCompileOptions(job.config) };
+      svg = await call(loaded, async () => {
+        const result = await d2.compile(request);
+        return d2.render(result.diagram, result.renderOptions);
+      });
+    } catch (error) {
+      // 与 d2 命令一致，编译错误作为错误输出返回，位置为输入中的行号
+      return { status: 1, stderr: formatCompileError(error instanceof Error ? error.message : String(error)) };
+    }
+
+    await writeFile(job.outputFilePath, svg);
+    return { status: 0, stderr: "" };
+  },
+
+  async renderBoards(job, boards): Promise<RenderJobResult> {
+    assertSupported(job);
+    const loaded = await engine!;
+    const { d2 } = loaded;
+
+    let svgs: (string | null)[];
+    try {
+      const request = { fs: buildFileSystem(job), inputPath: INPUT_PATH, options: buildCompileOptions(job.config) };
+      svgs = await call(loaded, async () => {
+        const result = await d2.compile(request);
+        const outputs: (string | null)[] = [];
+        for (const board of boards) {
+          // 无法渲染的图板由调用方单独渲染并报告错误
+          outputs.push(await d2.render(result.diagram, { ...result.renderOptions, target: board.target }).catch(() => null));
+        }
+        return outputs;
+      });
+    } catch (error) {
+      return { status: 1, stderr: formatCompileError(error instanceof Error ? error.message : String(error)) };
+    }
+
+    await Promise.all(boards.map((board, i) => (svgs[i] != null ? writeFile(board.outputFilePath, svgs[i]!) : undefined)));
+    return { status: 0, stderr: "" };
+  },
+};
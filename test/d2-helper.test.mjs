@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findImportPaths, rewriteImportPaths } from "../dist/d2-helper.js";
+
+describe("findImportPaths", () => {
+  it("finds regular and spread imports", () => {
+    assert.deepEqual(findImportPaths(`x: @shapes\n...@"styles/base.d2"\ny: @'my file'`), ["shapes.d2", "styles/base.d2", "my file.d2"]);
+  });
+
+  it("ignores import-like text inside strings", () => {
+    const code = [
+      `a.tooltip: "contact: @john"`,
+      `b.tooltip: 'contact: @jane'`,
+      `c: |md`,
+      `  Ask ...@support or contact: @team`,
+      `|`,
+      `d: |\`md`,
+      `  Pipes | inside: @nowhere`,
+      `\`|`,
+      `e: ||md a | b: @nope ||`,
+      `f: @real`,
+    ].join("\n");
+    assert.deepEqual(findImportPaths(code), ["real.d2"]);
+  });
+});
+
+describe("rewriteImportPaths", () => {
+  it("rewrites imports and leaves strings unchanged", () => {
+    const code = `a.tooltip: "contact: @john"\nb: |md contact: @team |\nc: @shapes\n...@'styles'`;
+    assert.equal(
+      rewriteImportPaths(code, (importPath) => `../shared/${importPath}`),
+      `a.tooltip: "contact: @john"\nb: |md contact: @team |\nc: @"../shared/shapes"\n...@"../shared/styles"`,
+    );
+  });
+
+  it("handles escaped quotes in strings", () => {
+    const code = `a: "say \\"hi: @x\\""\nb: @y`;
+    assert.equal(rewriteImportPaths(code, () => "z"), `a: "say \\"hi: @x\\""\nb: @"z"`);
+  });
+});